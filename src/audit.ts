@@ -0,0 +1,238 @@
+/**
+ * Audit log - one JSONL entry per tool call
+ *
+ * Each tool call runs inside an audit context. Permission checks and GitHub
+ * responses report into the current context, and the finished call is
+ * appended to the log with its arguments (secrets redacted), the permission
+ * decision, the GitHub status and how long it took. The file is only ever
+ * appended to.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readSync } from "fs";
+import { dirname } from "path";
+import type { Config } from "./config.js";
+
+export interface PermissionCheck {
+  check: string;
+  allowed: boolean;
+  reason: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  /** Canonical repo ("owner/repo" or "host/owner/repo") */
+  repo: string | null;
+  /** MCP client name/version */
+  client: string | null;
+  args: Record<string, unknown>;
+  /** "none" when the tool made no permission checks */
+  decision: "allowed" | "denied" | "none";
+  reason: string | null;
+  checks: PermissionCheck[];
+  bypass: boolean;
+  /** Write confirmation step, when confirm_writes applied */
+  confirmation: "preview" | "confirmed" | null;
+  outcome: "ok" | "error" | "denied";
+  error: string | null;
+  /** Status of the last GitHub response (or error) during the call */
+  github_status: number | null;
+  github_calls: number;
+  duration_ms: number;
+}
+
+export interface AuditFilter {
+  tool?: string;
+  repo?: string;
+  decision?: AuditEntry["decision"];
+  outcome?: AuditEntry["outcome"];
+  /** Entries the caller may see; hidden ones don't count toward `limit` */
+  visible?: (entry: AuditEntry) => boolean;
+  limit?: number;
+}
+
+interface AuditContext {
+  checks: PermissionCheck[];
+  confirmation: AuditEntry["confirmation"];
+  github_status: number | null;
+  github_calls: number;
+}
+
+const context = new AsyncLocalStorage<AuditContext>();
+
+// Argument names whose values never reach the log
+const SECRET_KEY = /token|secret|password|passwd|credential|private|api_?key|auth/i;
+
+// Values that look like GitHub credentials, whatever they're called
+const SECRET_VALUE = /^(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,})$/;
+
+// Long values (e.g. workflow YAML passed to the linter) are summarized
+const MAX_LOGGED_STRING = 1000;
+
+// How far back gha_audit_tail reads when filtering
+const MAX_TAIL_SCAN_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Record a permission check in the current call's audit entry
+ */
+export function notePermission(check: string, allowed: boolean, reason: string): void {
+  context.getStore()?.checks.push({ check, allowed, reason });
+}
+
+/**
+ * Record a GitHub response status (null for network errors and timeouts)
+ */
+export function noteGitHubStatus(status: number | null): void {
+  const store = context.getStore();
+  if (!store) return;
+  store.github_status = status;
+  store.github_calls++;
+}
+
+export function noteConfirmation(step: "preview" | "confirmed"): void {
+  const store = context.getStore();
+  if (store) store.confirmation = step;
+}
+
+/**
+ * Replace secret-looking arguments and shorten huge ones, recursively
+ */
+export function redact(value: unknown, key?: string): unknown {
+  if (key !== undefined && SECRET_KEY.test(key) && value !== undefined && value !== null) {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    if (SECRET_VALUE.test(value)) return "[REDACTED]";
+    return value.length > MAX_LOGGED_STRING ? `[${value.length} chars]` : value;
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redact(v, k)])
+    );
+  }
+  return value;
+}
+
+export class AuditLog {
+  constructor(
+    private readonly config: Config["audit"],
+    private readonly bypass: boolean
+  ) {}
+
+  /**
+   * Run a tool call and append its entry, whether it succeeds, fails or is denied
+   */
+  async run<T extends { isError?: boolean }>(
+    call: { tool: string; repo: string | null; client: string | null; args: Record<string, unknown> },
+    fn: () => T | Promise<T>
+  ): Promise<T> {
+    const store: AuditContext = { checks: [], confirmation: null, github_status: null, github_calls: 0 };
+    const started = Date.now();
+
+    const finish = (outcome: AuditEntry["outcome"], error: string | null) => {
+      const denied = store.checks.find((c) => !c.allowed);
+      this.append({
+        timestamp: new Date(started).toISOString(),
+        tool: call.tool,
+        repo: call.repo,
+        client: call.client,
+        args: redact(call.args) as Record<string, unknown>,
+        decision: denied ? "denied" : store.checks.length > 0 ? "allowed" : "none",
+        reason: denied
+          ? denied.reason
+          : store.checks.length > 0 ? store.checks.map((c) => c.reason).join("; ") : null,
+        checks: store.checks,
+        bypass: this.bypass,
+        confirmation: store.confirmation,
+        outcome,
+        error,
+        github_status: store.github_status,
+        github_calls: store.github_calls,
+        duration_ms: Date.now() - started,
+      });
+    };
+
+    try {
+      const result = await context.run(store, fn);
+      finish(result.isError ? "error" : "ok", null);
+      return result;
+    } catch (error) {
+      const denied = store.checks.some((c) => !c.allowed);
+      finish(denied ? "denied" : "error", error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent entries matching a filter, newest first
+   */
+  tail(filter: AuditFilter = {}): { entries: AuditEntry[]; scanned_all: boolean } {
+    const limit = filter.limit ?? 50;
+    const repo = filter.repo?.toLowerCase();
+    const entries: AuditEntry[] = [];
+
+    const { lines, complete } = readTailLines(this.config.path, MAX_TAIL_SCAN_BYTES);
+    for (const line of lines) {
+      if (entries.length >= limit) break;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        continue;
+      }
+
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      if (repo && entry.repo?.toLowerCase() !== repo) continue;
+      if (filter.decision && entry.decision !== filter.decision) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (filter.visible && !filter.visible(entry)) continue;
+      entries.push(entry);
+    }
+
+    return { entries, scanned_all: complete };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get path(): string {
+    return this.config.path;
+  }
+
+  private append(entry: AuditEntry): void {
+    if (!this.config.enabled) return;
+
+    try {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+      appendFileSync(this.config.path, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    } catch (error) {
+      console.error(`[audit] Failed to write ${this.config.path}:`, error);
+    }
+  }
+}
+
+/**
+ * Lines of a file, newest first, reading at most `maxBytes` from its end
+ */
+function readTailLines(path: string, maxBytes: number): { lines: string[]; complete: boolean } {
+  if (!existsSync(path)) return { lines: [], complete: true };
+
+  const fd = openSync(path, "r");
+  try {
+    const size = fstatSync(fd).size;
+    const start = Math.max(0, size - maxBytes);
+    const buffer = Buffer.alloc(size - start);
+    readSync(fd, buffer, 0, buffer.length, start);
+
+    const lines = buffer.toString("utf-8").split("\n").filter((l) => l.trim());
+    // The first line may be cut off when we didn't read from the start
+    if (start > 0) lines.shift();
+    return { lines: lines.reverse(), complete: start === 0 };
+  } finally {
+    closeSync(fd);
+  }
+}
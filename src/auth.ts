@@ -0,0 +1,307 @@
+/**
+ * GitHub authentication - personal access token or GitHub App
+ *
+ * With a token, every call goes through one Octokit client. As a GitHub App,
+ * the server signs a JWT with the app's private key, looks up the app's
+ * installation for each repository owner and mints installation tokens.
+ * Each installation gets its own client, whose token is refreshed shortly
+ * before it expires.
+ */
+
+import { sign } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { Octokit } from "@octokit/rest";
+import type { Config } from "./config.js";
+import { raceAbort, withTimeout } from "./utils.js";
+
+// Installation tokens last an hour; replace them this long before expiry
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// GitHub accepts app JWTs for at most 10 minutes; backdate for clock drift
+const JWT_LIFETIME_S = 9 * 60;
+const JWT_BACKDATE_S = 60;
+
+interface Installation {
+  id: number;
+  account: string;
+  octokit: Octokit;
+  token: string | null;
+  expires_at: number;
+  refreshing: Promise<string> | null;
+}
+
+export interface AuthStatus {
+  mode: "token" | "app";
+  token_env?: string;
+  token_present?: boolean;
+  app_id?: string;
+  installations?: Array<{ id: number; account: string; token_expires_in_s: number | null }>;
+}
+
+export interface AuthOptions {
+  /** Host name for messages */
+  label: string;
+  /** API base URL (default: https://api.github.com) */
+  base_url?: string;
+  api_timeout: number;
+}
+
+export class GitHubAuth {
+  private readonly tokenClient: Octokit | null = null;
+  private readonly appId: string | null = null;
+  private readonly privateKey: string | null = null;
+  private jwt: { value: string; expires_at: number } | null = null;
+  private appClient: Octokit | null = null;
+
+  private readonly installationIds = new Map<string, number>();
+  private readonly installations = new Map<number, Installation>();
+  private lastInstallation: Installation | null = null;
+
+  constructor(
+    private readonly auth: Config["auth"],
+    private readonly options: AuthOptions
+  ) {
+    if (auth.app_id === undefined) {
+      this.tokenClient = this.createClient(process.env[auth.token_env]);
+      return;
+    }
+
+    this.appId = String(auth.app_id);
+    this.privateKey = loadPrivateKey(auth);
+  }
+
+  get mode(): "token" | "app" {
+    return this.appId ? "app" : "token";
+  }
+
+  /**
+   * Why the server can't authenticate, or null when credentials are in place
+   */
+  missingCredentials(): string | null {
+    if (this.mode === "token") {
+      return process.env[this.auth.token_env]
+        ? null
+        : `${this.auth.token_env} not set`;
+    }
+    return this.privateKey
+      ? null
+      : `GitHub App ${this.appId}: private key not found (set auth.private_key_path or auth.private_key_env)`;
+  }
+
+  /**
+   * Client for a repository ("owner/repo"), or "*" for calls not tied to one
+   *
+   * As an app, "*" uses the most recently used installation, or the first
+   * installation of the app when none has been used yet.
+   */
+  async octokitFor(repo: string, signal?: AbortSignal): Promise<Octokit> {
+    if (this.tokenClient) return this.tokenClient;
+
+    if (repo === "*") {
+      if (this.lastInstallation) return this.lastInstallation.octokit;
+
+      const response = await this.app().rest.apps.listInstallations({ per_page: 1, request: { signal } });
+      const first = response.data[0];
+      if (!first) {
+        throw new Error(`GitHub App ${this.appId} has no installations`);
+      }
+      this.lastInstallation = this.installation(first.id, first.account?.login ?? "unknown");
+      return this.lastInstallation.octokit;
+    }
+
+    const [owner, repoName] = repo.split("/");
+    const key = owner.toLowerCase();
+    let installationId = this.installationIds.get(key);
+
+    if (installationId === undefined) {
+      try {
+        const response = await this.app().rest.apps.getRepoInstallation({
+          owner,
+          repo: repoName,
+          request: { signal },
+        });
+        installationId = response.data.id;
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          throw new Error(`GitHub App ${this.appId} is not installed on "${owner}" at ${this.options.label} (or cannot access ${repo})`);
+        }
+        throw error;
+      }
+      this.installationIds.set(key, installationId);
+    }
+
+    const installation = this.installation(installationId, owner);
+    this.lastInstallation = installation;
+    return installation.octokit;
+  }
+
+  /**
+   * Account whose installation a call for `repo` ("owner/repo" or "*") is
+   * made as, and whose rate limit it uses. Null with a token (one quota for
+   * every call) and for "*" before any installation was used.
+   */
+  installationAccount(repo: string): string | null {
+    if (this.tokenClient) return null;
+    if (repo === "*") return this.lastInstallation?.account.toLowerCase() ?? null;
+    return repo.split("/")[0].toLowerCase();
+  }
+
+  status(): AuthStatus {
+    if (this.mode === "token") {
+      return {
+        mode: "token",
+        token_env: this.auth.token_env,
+        token_present: !!process.env[this.auth.token_env],
+      };
+    }
+
+    return {
+      mode: "app",
+      app_id: this.appId ?? undefined,
+      installations: [...this.installations.values()].map((i) => ({
+        id: i.id,
+        account: i.account,
+        token_expires_in_s: i.token ? Math.max(0, Math.round((i.expires_at - Date.now()) / 1000)) : null,
+      })),
+    };
+  }
+
+  private createClient(auth?: string): Octokit {
+    return new Octokit({
+      auth,
+      baseUrl: this.options.base_url,
+      request: {
+        timeout: this.options.api_timeout,
+      },
+    });
+  }
+
+  /**
+   * Client authenticated as the app itself (JWT), for the apps endpoints
+   */
+  private app(): Octokit {
+    if (!this.appClient) {
+      const client = this.createClient();
+      client.hook.before("request", (options) => {
+        options.headers.authorization = `Bearer ${this.appJwt()}`;
+      });
+      this.appClient = client;
+    }
+    return this.appClient;
+  }
+
+  private appJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    if (this.jwt && this.jwt.expires_at - 60 > now) {
+      return this.jwt.value;
+    }
+
+    if (!this.privateKey) {
+      throw new Error(this.missingCredentials() ?? "GitHub App private key missing");
+    }
+
+    const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64url(JSON.stringify({
+      iat: now - JWT_BACKDATE_S,
+      exp: now + JWT_LIFETIME_S,
+      iss: this.appId,
+    }));
+    const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), this.privateKey);
+
+    this.jwt = {
+      value: `${header}.${payload}.${signature.toString("base64url")}`,
+      expires_at: now + JWT_LIFETIME_S,
+    };
+    return this.jwt.value;
+  }
+
+  private installation(id: number, account: string): Installation {
+    let installation = this.installations.get(id);
+    if (installation) return installation;
+
+    const client = this.createClient();
+    const entry: Installation = {
+      id,
+      account,
+      octokit: client,
+      token: null,
+      expires_at: 0,
+      refreshing: null,
+    };
+
+    client.hook.before("request", async (options) => {
+      const signal = (options.request as { signal?: AbortSignal } | undefined)?.signal;
+      options.headers.authorization = `token ${await this.installationToken(entry, signal)}`;
+    });
+
+    installation = entry;
+    this.installations.set(id, installation);
+    return installation;
+  }
+
+  /**
+   * Current token for an installation, minting a new one when it is about
+   * to expire. Concurrent callers share one mint request, bounded by the API
+   * timeout rather than any one caller's signal: a caller that cancels stops
+   * waiting without failing the others.
+   */
+  private async installationToken(installation: Installation, signal?: AbortSignal): Promise<string> {
+    if (installation.token && installation.expires_at - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return installation.token;
+    }
+
+    if (!installation.refreshing) {
+      installation.refreshing = (async () => {
+        try {
+          const response = await withTimeout(
+            (s) => this.app().rest.apps.createInstallationAccessToken({
+              installation_id: installation.id,
+              request: { signal: s },
+            }),
+            this.options.api_timeout,
+            `Minting installation token for ${installation.account} timed out after ${this.options.api_timeout}ms`
+          );
+          installation.token = response.data.token;
+          installation.expires_at = new Date(response.data.expires_at).getTime();
+          console.error(
+            `[github-actions-mcp] Minted installation token for ${installation.account} ` +
+            `(expires ${response.data.expires_at})`
+          );
+          return installation.token;
+        } finally {
+          installation.refreshing = null;
+        }
+      })();
+      // Every waiter may have cancelled by the time it settles
+      installation.refreshing.catch(() => {});
+    }
+
+    return raceAbort(installation.refreshing, signal);
+  }
+}
+
+/**
+ * Read the app's PEM private key from a file or an environment variable
+ */
+function loadPrivateKey(auth: Config["auth"]): string | null {
+  if (auth.private_key_env) {
+    const value = process.env[auth.private_key_env];
+    // Env vars often carry the PEM with escaped newlines
+    if (value) return value.replace(/\\n/g, "\n");
+  }
+
+  if (auth.private_key_path) {
+    const path = auth.private_key_path.startsWith("~/")
+      ? join(homedir(), auth.private_key_path.slice(2))
+      : auth.private_key_path;
+    if (existsSync(path)) return readFileSync(path, "utf-8");
+  }
+
+  return null;
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text).toString("base64url");
+}
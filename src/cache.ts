@@ -0,0 +1,311 @@
+/**
+ * On-disk log cache
+ *
+ * Logs of completed runs and jobs never change, so downloads are kept under
+ * ~/.cache/github-actions-mcp. Content is stored by SHA-256 (identical logs
+ * are stored once) behind an index of keys; the index tracks last access
+ * for LRU eviction once the size cap is reached.
+ *
+ * Several server processes (one per MCP client) usually share the
+ * directory: every change re-reads the index under a lock file, applies
+ * itself and writes it back, and a process only deletes blobs it dropped.
+ *
+ * The cache is an optimization only: every failure is logged and treated
+ * as a miss, never surfaced to tools.
+ */
+
+import { createHash } from "crypto";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import type { Config } from "./config.js";
+
+interface CacheEntry {
+  hash: string;
+  size: number;
+  last_access: number;
+}
+
+interface CacheIndex {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  dir: string;
+  entries: number;
+  bytes: number;
+  max_bytes: number;
+}
+
+export function runLogKey(repo: string, run_id: number, attempt: number): string {
+  return `${repo.toLowerCase()}/runs/${run_id}/attempts/${attempt}`;
+}
+
+export function jobLogKey(repo: string, job_id: number): string {
+  return `${repo.toLowerCase()}/jobs/${job_id}`;
+}
+
+/**
+ * Job metadata (status, steps) stored next to a completed job's log, so a
+ * cached job needs no GitHub call at all
+ */
+export function jobMetaKey(repo: string, job_id: number): string {
+  return `${jobLogKey(repo, job_id)}/meta`;
+}
+
+// Access times from cache hits are written back in batches
+const INDEX_FLUSH_DELAY_MS = 5_000;
+
+// How long to wait for another process's index lock, and when a lock left
+// by a crashed process is taken over
+const LOCK_WAIT_MS = 2_000;
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 10;
+
+export class LogCache {
+  /** Access times from hits not yet written to the index */
+  private readonly touched = new Map<string, number>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly config: Config["cache"]) {
+    process.once("exit", () => this.flush());
+  }
+
+  /**
+   * Cached content for a key, or null on a miss
+   */
+  get(key: string): Buffer | null {
+    if (!this.config.enabled) return null;
+
+    try {
+      const entry = this.load().entries[key];
+      if (!entry) return null;
+
+      const path = this.blobPath(entry.hash);
+      if (!existsSync(path)) {
+        this.update((index) => {
+          if (index.entries[key]?.hash === entry.hash) delete index.entries[key];
+        });
+        return null;
+      }
+
+      this.touched.set(key, Date.now());
+      this.saveLater();
+      return readFileSync(path);
+    } catch (error) {
+      console.error(`[cache] Read failed for ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store content under a key, evicting least recently used entries if needed
+   */
+  put(key: string, data: Uint8Array): void {
+    if (!this.config.enabled) return;
+    if (data.byteLength > this.config.max_bytes) return; // Would evict everything
+
+    try {
+      const hash = createHash("sha256").update(data).digest("hex");
+      const path = this.blobPath(hash);
+
+      // Under the lock, so another process can't drop the blob in between
+      this.update((index) => {
+        if (!existsSync(path)) {
+          mkdirSync(join(this.config.dir, "blobs"), { recursive: true });
+          writeFileSync(`${path}.${process.pid}.tmp`, data);
+          renameSync(`${path}.${process.pid}.tmp`, path);
+        }
+        index.entries[key] = { hash, size: data.byteLength, last_access: Date.now() };
+      });
+    } catch (error) {
+      console.error(`[cache] Write failed for ${key}:`, error);
+    }
+  }
+
+  /**
+   * Remove entries whose key starts with `prefix` (all entries if omitted)
+   */
+  purge(prefix?: string): { entries: number; bytes: number } {
+    let removed = { entries: 0, bytes: 0 };
+
+    this.update((index) => {
+      const before = { entries: Object.keys(index.entries).length, bytes: totalBytes(index) };
+      for (const key of Object.keys(index.entries)) {
+        if (!prefix || key.startsWith(prefix)) {
+          delete index.entries[key];
+        }
+      }
+      removed = {
+        entries: before.entries - Object.keys(index.entries).length,
+        bytes: before.bytes - totalBytes(index),
+      };
+    });
+
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const index = this.load();
+    return {
+      enabled: this.config.enabled,
+      dir: this.config.dir,
+      entries: Object.keys(index.entries).length,
+      bytes: totalBytes(index),
+      max_bytes: this.config.max_bytes,
+    };
+  }
+
+  /**
+   * Apply a change to the index as it is on disk now: under the lock, merge
+   * in pending access times, change, evict down to max_bytes, write back,
+   * then delete the blobs no entry refers to any more
+   */
+  private update(change: (index: CacheIndex) => void): void {
+    this.withLock(() => {
+      const index = this.load();
+      const before = new Set(Object.values(index.entries).map((e) => e.hash));
+
+      for (const [key, at] of this.touched) {
+        const entry = index.entries[key];
+        if (entry) entry.last_access = Math.max(entry.last_access, at);
+      }
+      this.touched.clear();
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+
+      change(index);
+      evict(index, this.config.max_bytes);
+      this.save(index);
+
+      const live = new Set(Object.values(index.entries).map((e) => e.hash));
+      for (const hash of before) {
+        if (!live.has(hash)) rmSync(this.blobPath(hash), { force: true });
+      }
+    });
+  }
+
+  private withLock<T>(fn: () => T): T {
+    mkdirSync(this.config.dir, { recursive: true });
+    const path = join(this.config.dir, "index.lock");
+    const giveUp = Date.now() + LOCK_WAIT_MS;
+
+    let fd: number;
+    for (;;) {
+      try {
+        fd = openSync(path, "wx");
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        if (lockAge(path) > LOCK_STALE_MS) {
+          rmSync(path, { force: true });
+          continue;
+        }
+        if (Date.now() > giveUp) {
+          throw new Error(`Cache index is locked by another process (${path})`);
+        }
+        sleepSync(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      closeSync(fd);
+      rmSync(path, { force: true });
+    }
+  }
+
+  private load(): CacheIndex {
+    const path = join(this.config.dir, "index.json");
+    if (!existsSync(path)) return { version: 1, entries: {} };
+
+    try {
+      const parsed = JSON.parse(readFileSync(path, "utf-8")) as CacheIndex;
+      if (parsed.version === 1 && parsed.entries) return parsed;
+    } catch {
+      console.error("[cache] Index unreadable, starting empty");
+    }
+    return { version: 1, entries: {} };
+  }
+
+  /**
+   * Write pending access times now (also done on exit)
+   */
+  flush(): void {
+    if (this.touched.size === 0) return;
+    try {
+      this.update(() => {});
+    } catch (error) {
+      console.error("[cache] Index write failed:", error);
+    }
+  }
+
+  private saveLater(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), INDEX_FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+
+  private save(index: CacheIndex): void {
+    const path = join(this.config.dir, "index.json");
+    writeFileSync(`${path}.${process.pid}.tmp`, JSON.stringify(index));
+    renameSync(`${path}.${process.pid}.tmp`, path);
+  }
+
+  private blobPath(hash: string): string {
+    return join(this.config.dir, "blobs", hash);
+  }
+}
+
+/**
+ * Drop least recently used entries until the index fits in `maxBytes`
+ */
+function evict(index: CacheIndex, maxBytes: number): void {
+  const byAge = Object.entries(index.entries).sort(
+    (a, b) => a[1].last_access - b[1].last_access
+  );
+
+  while (totalBytes(index) > maxBytes && byAge.length > 0) {
+    const [key] = byAge.shift()!;
+    delete index.entries[key];
+  }
+}
+
+function lockAge(path: string): number {
+  try {
+    return Date.now() - statSync(path).mtimeMs;
+  } catch {
+    return 0; // Just released; try again
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Disk usage: each blob counts once, however many keys share it
+ */
+function totalBytes(index: CacheIndex): number {
+  const sizes = new Map<string, number>();
+  for (const entry of Object.values(index.entries)) {
+    sizes.set(entry.hash, entry.size);
+  }
+  let total = 0;
+  for (const size of sizes.values()) total += size;
+  return total;
+}
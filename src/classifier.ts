@@ -0,0 +1,240 @@
+/**
+ * Rule-based failure classification
+ *
+ * Deterministic and offline: matches failed-step log lines against known
+ * signatures. Runs before (and independently of) the Haiku fallback, so a
+ * structured diagnosis is available even when logs can't leave the machine.
+ */
+
+import { normalizeLogLine } from "./logs.js";
+
+export type FailureCategory =
+  | "test_assertion"
+  | "compile_error"
+  | "dependency_resolution"
+  | "oom_or_runner_lost"
+  | "timeout"
+  | "network_flake"
+  | "permissions_secret";
+
+export interface ClassifierInput {
+  job: string;
+  step: string | null;
+  lines: string[];
+  start_line?: number;
+}
+
+export interface ClassifierMatch {
+  job: string;
+  step: string | null;
+  line_number: number;
+  text: string;
+}
+
+export interface Classification {
+  category: FailureCategory;
+  description: string;
+  match_count: number;
+  matches: ClassifierMatch[];
+}
+
+interface Rule {
+  category: FailureCategory;
+  description: string;
+  patterns: RegExp[];
+}
+
+// Max matching lines reported per category
+const MAX_MATCHES = 10;
+
+// Order is priority: infrastructure causes outrank their symptoms, whatever
+// the match counts (one OOM line explains a page of failed tests)
+const RULES: Rule[] = [
+  {
+    category: "oom_or_runner_lost",
+    description: "Runner ran out of memory or disk, or lost contact with GitHub",
+    patterns: [
+      /JavaScript heap out of memory/,
+      /OutOfMemoryError/,
+      /\bout of memory\b/i,
+      /exit code 137\b/,
+      /^Killed\s*$/,
+      /No space left on device/,
+      /The runner has received a shutdown signal/,
+      /lost communication with the server/i,
+    ],
+  },
+  {
+    category: "timeout",
+    description: "Job, step or test exceeded its time limit",
+    patterns: [
+      /has exceeded the maximum execution time/,
+      /The operation was canceled\./,
+      /Timeout of \d+ms exceeded/,
+      /\btimed out after\b/i,
+      /exceeded (the )?timeout/i,
+    ],
+  },
+  {
+    category: "permissions_secret",
+    description: "Token lacks permission, or a required secret is missing",
+    patterns: [
+      /Resource not accessible by integration/,
+      /Bad credentials/,
+      /Input required and not supplied/,
+      /\b40[13] (Unauthorized|Forbidden)\b/,
+      /HTTP(\/[\d.]+)? 40[13]\b/,
+      /requested access to the resource is denied/,
+      /authentication (failed|required)/i,
+      /could not read Username/,
+      /Credentials could not be loaded/,
+      /secret\S* (is )?(not set|missing|empty)/i,
+    ],
+  },
+  {
+    category: "network_flake",
+    description: "Transient network or registry failure",
+    patterns: [
+      /\bECONNRESET\b/,
+      /\bETIMEDOUT\b/,
+      /\bENOTFOUND\b/,
+      /\bEAI_AGAIN\b/,
+      /socket hang up/,
+      /Connection (reset|refused|timed out)/i,
+      /\b50[234] (Bad Gateway|Service Unavailable|Gateway Time-?out)\b/i,
+      /TLS handshake timeout/,
+      /Temporary failure in name resolution/,
+      /Could not resolve host/,
+      /npm ERR! network/,
+      /toomanyrequests/i,
+    ],
+  },
+  {
+    category: "dependency_resolution",
+    description: "Dependencies could not be resolved or installed",
+    patterns: [
+      /\bERESOLVE\b/,
+      /unable to resolve dependency tree/i,
+      /Could not resolve dependencies/i,
+      /No matching distribution found/,
+      /Could not find a version that satisfies/,
+      /ResolutionImpossible/,
+      /version solving failed/,
+      /failed to select a version/,
+      /Cannot find module '/,
+      /ModuleNotFoundError/,
+      /lockfile .*(out of date|needs to be updated)/i,
+    ],
+  },
+  {
+    category: "compile_error",
+    description: "Compilation or type-check failed",
+    patterns: [
+      /error TS\d+:/,
+      /error\[E\d+\]/,
+      /\berror CS\d+:/,
+      /:\d+(:\d+)?: error:/,
+      /\bSyntaxError:/,
+      /cannot find symbol/,
+      /Compilation failed/i,
+      /Found \d+ errors?\b/,
+    ],
+  },
+  {
+    category: "test_assertion",
+    description: "One or more tests failed their assertions",
+    patterns: [
+      /AssertionError/,
+      /assertion failed/i,
+      /^\s*FAIL\s+\S+/,
+      /^FAILED\s+\S+::/,
+      /^--- FAIL: /,
+      /Tests?:\s+\d+ failed/,
+      /\b\d+ failed(,| in )/,
+      /\bExpected\b.*\b(but|Received|got)\b/i,
+    ],
+  },
+];
+
+/**
+ * Classify failed-step logs into categories, by rule priority
+ *
+ * Returns an empty list when no rule matches.
+ */
+export function classifyFailure(inputs: ClassifierInput[]): Classification[] {
+  const results: Classification[] = [];
+
+  for (const rule of RULES) {
+    const matches: ClassifierMatch[] = [];
+    let count = 0;
+
+    for (const input of inputs) {
+      const offset = input.start_line ?? 1;
+      input.lines.forEach((text, i) => {
+        if (!rule.patterns.some((p) => p.test(text))) return;
+        count++;
+        if (matches.length < MAX_MATCHES) {
+          matches.push({
+            job: input.job,
+            step: input.step,
+            line_number: offset + i,
+            text: text.trim(),
+          });
+        }
+      });
+    }
+
+    if (count > 0) {
+      results.push({
+        category: rule.category,
+        description: rule.description,
+        match_count: count,
+        matches,
+      });
+    }
+  }
+
+  // Already in rule (priority) order
+  return results;
+}
+
+export interface ErrorSignature {
+  signature: string;
+  example: string;
+  category: FailureCategory | null;
+}
+
+// Runner's closing annotation; says nothing about the cause
+const GENERIC_ERROR = /##\[error\]Process completed with exit code \d+\.?$/;
+
+/**
+ * Reduce a failed step's log to one comparable error line
+ *
+ * Prefers the first line matched by the top classification, then the last
+ * specific "##[error]" annotation, then the last non-empty line. The
+ * signature has numbers and hashes masked so it groups across runs.
+ */
+export function errorSignature(input: ClassifierInput): ErrorSignature | null {
+  const [top] = classifyFailure([input]);
+  let example: string | undefined = top?.matches[0]?.text;
+
+  if (!example) {
+    example = [...input.lines]
+      .reverse()
+      .find((l) => l.includes("##[error]") && !GENERIC_ERROR.test(l.trim()));
+  }
+
+  if (!example) {
+    example = [...input.lines]
+      .reverse()
+      .find((l) => l.trim() && !GENERIC_ERROR.test(l.trim()));
+  }
+
+  if (!example) return null;
+
+  return {
+    signature: normalizeLogLine(example),
+    example: example.trim(),
+    category: top?.category ?? null,
+  };
+}
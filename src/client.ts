@@ -0,0 +1,334 @@
+/**
+ * GitHub call wrapper - circuit breakers and rate limit awareness
+ *
+ * Every GitHub API call goes through GitHubClient.call(). It keeps one
+ * circuit breaker per repository + endpoint family, records the rate limit
+ * headers of each response (per quota: a host, or with GitHub App auth one
+ * installation on it), and spaces out or refuses non-essential calls when
+ * that quota runs low.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import type { Config } from "./config.js";
+import { DEFAULT_HOST } from "./hosts.js";
+import { noteGitHubStatus } from "./audit.js";
+import {
+  withTimeout,
+  withRetry,
+  sleep,
+  CircuitBreaker,
+  parseRateLimitHeaders,
+  type RateLimitInfo,
+  type RetryVerdict,
+} from "./utils.js";
+
+export interface CallOptions {
+  /** Repository ("owner/repo" or "host/owner/repo"), scopes the circuit breaker and picks the host */
+  repo: string;
+  /** Endpoint family, e.g. "runs", "jobs", "logs", "writes" */
+  family: string;
+  /** Defaults to neverhang.api_timeout */
+  timeout?: number;
+  timeoutMessage?: string;
+  /** Essential calls (user-requested writes) are never throttled by quota */
+  essential?: boolean;
+  /** Safe to retry on transient errors (default: true). Writes must set false */
+  idempotent?: boolean;
+  /** Cancels the call, e.g. the MCP request's signal */
+  signal?: AbortSignal;
+}
+
+export type ThrottleState = "normal" | "slowing" | "refusing" | "exhausted";
+
+interface ResponseLike {
+  status?: number;
+  headers: Record<string, string | number | undefined>;
+}
+
+/**
+ * Where calls get their authenticated client from (see GitHubHosts)
+ */
+export interface OctokitSource {
+  hostOf(repo: string): string;
+  /** Which rate limit a call for `repo` draws on (see GitHubHosts.quotaKey) */
+  quotaKey(repo: string): string;
+  octokitFor(repo: string, signal?: AbortSignal): Promise<Octokit>;
+}
+
+export class GitHubClient {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  /** Quota buckets per quota key: each host, and each app installation, counts separately */
+  private readonly rateLimits = new Map<string, Map<string, RateLimitInfo>>();
+
+  constructor(
+    private readonly config: Config,
+    private readonly source: OctokitSource
+  ) {}
+
+  /**
+   * Run a GitHub API call under breaker, quota and timeout guards
+   *
+   * `fn` gets the client for `options.repo`'s host, authenticated for it
+   * (the repo owner's installation when running as a GitHub App).
+   */
+  async call<T extends ResponseLike>(
+    options: CallOptions,
+    fn: (signal: AbortSignal, octokit: Octokit) => Promise<T>
+  ): Promise<T> {
+    const breaker = this.breaker(options.repo, options.family);
+    breaker.check();
+
+    await this.throttle(options, this.source.quotaKey(options.repo));
+    // Asked again once the client is picked: host-level calls ("*") only
+    // settle on an installation then
+    const quota = () => this.source.quotaKey(options.repo);
+
+    const timeout = options.timeout ?? this.config.neverhang.api_timeout;
+    const policy = options.idempotent === false
+      ? { ...this.config.neverhang.retries, max_attempts: 1 }
+      : this.config.neverhang.retries;
+
+    try {
+      const response = await withRetry(
+        (remaining) => withTimeout(
+          async (signal) => fn(signal, await this.source.octokitFor(options.repo, signal)),
+          remaining,
+          options.timeoutMessage,
+          options.signal
+        ),
+        timeout,
+        policy,
+        (error) => {
+          // Keep quota tracking current between attempts
+          const failed = (error as { response?: ResponseLike }).response;
+          if (failed?.headers) this.record(failed.headers, quota());
+          return classifyRetry(error);
+        },
+        options.signal
+      );
+      this.record(response.headers, quota());
+      noteGitHubStatus(response.status ?? null);
+      breaker.success();
+      return response;
+    } catch (error) {
+      const response = (error as { response?: ResponseLike }).response;
+      if (response?.headers) {
+        this.record(response.headers, quota());
+      }
+      noteGitHubStatus((error as { status?: number }).status ?? null);
+
+      // A cancelled call says nothing about GitHub's health
+      if (!options.signal?.aborted && isTransient(error)) {
+        breaker.failure();
+      }
+
+      throw this.describe(error, quota());
+    }
+  }
+
+  /**
+   * Latest known rate limit for a bucket ("core", "search", "graphql", ...)
+   */
+  getRateLimit(resource: string = "core", quota: string = DEFAULT_HOST): RateLimitInfo | undefined {
+    return this.limitsFor(quota).get(resource);
+  }
+
+  /**
+   * All known rate limit buckets of a quota
+   */
+  getRateLimits(quota: string = DEFAULT_HOST): Record<string, RateLimitInfo> {
+    return Object.fromEntries(this.limitsFor(quota));
+  }
+
+  /**
+   * Store rate limits reported by the /rate_limit endpoint, for the quota
+   * the call was made with
+   */
+  setRateLimits(
+    resources: Record<string, { limit: number; remaining: number; reset: number } | undefined>,
+    quota: string = DEFAULT_HOST
+  ): void {
+    const limits = this.limitsFor(quota);
+    for (const [resource, r] of Object.entries(resources)) {
+      if (!r) continue;
+      limits.set(resource, {
+        remaining: r.remaining,
+        limit: r.limit,
+        reset_at: new Date(r.reset * 1000),
+        resource,
+      });
+    }
+  }
+
+  /**
+   * Breakers that have seen failures, keyed by "owner/repo:family"
+   */
+  getBreakerStatus(): Array<{ key: string; open: boolean; failures: number; cooldown_remaining_s: number }> {
+    return [...this.breakers.entries()]
+      .map(([key, breaker]) => ({ key, ...breaker.status() }))
+      .filter((b) => b.open || b.failures > 0);
+  }
+
+  private breaker(repo: string, family: string): CircuitBreaker {
+    const key = `${repo.toLowerCase()}:${family}`;
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  private limitsFor(quota: string): Map<string, RateLimitInfo> {
+    let limits = this.rateLimits.get(quota);
+    if (!limits) {
+      limits = new Map();
+      this.rateLimits.set(quota, limits);
+    }
+    return limits;
+  }
+
+  private record(headers: ResponseLike["headers"], quota: string): void {
+    // GHES without rate limiting sends no headers
+    const info = parseRateLimitHeaders(stringifyHeaders(headers));
+    if (info) {
+      this.limitsFor(quota).set(info.resource || "core", info);
+    }
+  }
+
+  /**
+   * How calls drawing on a quota are currently being throttled, based on its
+   * core bucket
+   */
+  getThrottleState(quota: string = DEFAULT_HOST): ThrottleState {
+    const info = this.limitsFor(quota).get("core");
+    if (!info) return "normal";
+
+    // Window has rolled over, the recorded numbers are stale
+    if (info.reset_at.getTime() <= Date.now()) return "normal";
+
+    if (info.remaining <= 0) return "exhausted";
+    if (info.remaining < this.config.rate_limit.refuse_below) return "refusing";
+    if (info.remaining < this.config.rate_limit.slow_below) return "slowing";
+    return "normal";
+  }
+
+  /**
+   * Slow down (or refuse) non-essential calls when the core quota is low
+   */
+  private async throttle(options: CallOptions, quota: string): Promise<void> {
+    const state = this.getThrottleState(quota);
+    const info = this.limitsFor(quota).get("core");
+    if (state === "normal" || !info) return;
+
+    if (state === "exhausted") {
+      throw new Error(`GitHub rate limit exhausted (0/${info.limit}). ${resetNote(info)}`);
+    }
+
+    if (options.essential) return;
+
+    if (state === "refusing") {
+      throw new Error(
+        `Refusing non-essential GitHub call: ${info.remaining}/${info.limit} requests left ` +
+        `(reserve is ${this.config.rate_limit.refuse_below}). ${resetNote(info)}`
+      );
+    }
+
+    if (state === "slowing") {
+      // Spread the remaining quota evenly over the rest of the window
+      const msUntilReset = info.reset_at.getTime() - Date.now();
+      const delay = Math.min(
+        this.config.rate_limit.max_delay_ms,
+        Math.ceil(msUntilReset / info.remaining)
+      );
+      console.error(
+        `[github-actions-mcp] Rate limit low (${info.remaining}/${info.limit}), delaying ${delay}ms`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+
+  /**
+   * Add quota context to rate limit errors
+   */
+  private describe(error: unknown, quota: string): unknown {
+    if (!(error instanceof Error)) return error;
+
+    const status = (error as { status?: number }).status;
+    if (status !== 403 && status !== 429) return error;
+
+    const info = this.limitsFor(quota).get("core");
+    if (/secondary rate limit/i.test(error.message)) {
+      const retryAfter = (error as { response?: ResponseLike }).response?.headers["retry-after"];
+      error.message += retryAfter
+        ? ` (secondary rate limit, retry after ${retryAfter}s)`
+        : " (secondary rate limit)";
+    } else if (info && info.remaining <= 0) {
+      error.message += ` (rate limit exhausted. ${resetNote(info)})`;
+    }
+    return error;
+  }
+}
+
+function resetNote(info: RateLimitInfo): string {
+  const seconds = Math.max(0, Math.ceil((info.reset_at.getTime() - Date.now()) / 1000));
+  return `Quota resets at ${info.reset_at.toISOString()} (in ${seconds}s)`;
+}
+
+/**
+ * Failures that say something about GitHub's health rather than the request:
+ * timeouts, network errors, 5xx and rate limiting. Plain 403s, 404s and
+ * 422s don't count.
+ */
+export function isTransient(error: unknown): boolean {
+  const status = (error as { status?: number }).status;
+  if (status === undefined) return true;
+  if (status === 403) {
+    return error instanceof Error && /rate limit/i.test(error.message);
+  }
+  return status >= 500 || status === 429;
+}
+
+/**
+ * Transient errors worth retrying on a read: 502/503/504, secondary rate
+ * limits (honouring Retry-After) and dropped connections
+ */
+function classifyRetry(error: unknown): RetryVerdict {
+  const status = (error as { status?: number }).status;
+  const message = error instanceof Error ? error.message : String(error);
+  const headers = (error as { response?: ResponseLike }).response?.headers;
+
+  if (status === 502 || status === 503 || status === 504) {
+    return { retry: true, after_ms: retryAfterMs(headers) };
+  }
+
+  if ((status === 403 || status === 429) && /secondary rate limit/i.test(message)) {
+    return { retry: true, after_ms: retryAfterMs(headers) ?? 60000 };
+  }
+
+  if (/ECONNRESET|EPIPE|socket hang up|other side closed/i.test(message)) {
+    return { retry: true };
+  }
+
+  return { retry: false };
+}
+
+function retryAfterMs(headers: ResponseLike["headers"] | undefined): number | undefined {
+  const value = headers?.["retry-after"];
+  if (value === undefined) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  // HTTP-date form
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function stringifyHeaders(headers: ResponseLike["headers"]): Record<string, string | undefined> {
+  const result: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key.toLowerCase()] = value === undefined ? undefined : String(value);
+  }
+  return result;
+}
@@ -5,11 +5,50 @@
 import { existsSync, readFileSync } from "fs";
 import { homedir } from "os";
 import { join } from "path";
+import type { RetryPolicy } from "./utils.js";
+
+/**
+ * A permission rule for write actions, scoped by repo, workflow and ref
+ *
+ * Rules are checked in order and the first one that matches decides.
+ * Omitted scopes match everything.
+ */
+export interface PolicyRule {
+  /** Named in denials and the audit log (default: its position) */
+  name?: string;
+  effect: "allow" | "deny";
+  actions: Array<"trigger" | "cancel" | "admin">;
+  /** "owner/repo" patterns, `*` matches anything */
+  repos?: string[];
+  /** Workflow file names ("deploy.yml") or paths, `*` matches anything */
+  workflows?: string[];
+  /** Branch or tag patterns ("main", "release/*") */
+  refs?: string[];
+}
+
+/**
+ * A GitHub Enterprise Server (or any host besides github.com)
+ */
+export interface HostConfig {
+  hostname: string;
+  /** Default: https://<hostname>/api/v3 */
+  base_url?: string;
+  auth: Config["auth"];
+  whitelist_repos: string[];
+  blacklist_repos: string[];
+  policies: PolicyRule[];
+}
 
 export interface Config {
   auth: {
     token_env: string;
+    /** GitHub App mode: set together with a private key instead of a token */
+    app_id?: number | string;
+    private_key_path?: string;
+    private_key_env?: string;
   };
+  /** Extra hosts by alias; github.com uses `auth` and `permissions` */
+  hosts: Record<string, HostConfig>;
   permissions: {
     read: boolean;
     trigger: boolean;
@@ -17,10 +56,44 @@ export interface Config {
     admin: boolean;
     whitelist_repos: string[];
     blacklist_repos: string[];
+    /** Write-action rules for github.com; extra hosts have their own */
+    policies: PolicyRule[];
   };
   neverhang: {
     api_timeout: number;
     log_timeout: number;
+    wait_timeout: number;
+    retries: RetryPolicy;
+  };
+  cache: {
+    enabled: boolean;
+    dir: string;
+    max_bytes: number;
+  };
+  webhook: {
+    enabled: boolean;
+    host: string;
+    port: number;
+    path: string;
+    secret_env: string;
+    max_events: number;
+  };
+  /** Preview writes and require a confirmation token before acting */
+  confirm_writes: {
+    enabled: boolean;
+    ttl_seconds: number;
+    /** Repos that need confirmation, same patterns as whitelist_repos; empty = all */
+    repos: string[];
+  };
+  /** Append-only JSONL record of every tool call */
+  audit: {
+    enabled: boolean;
+    path: string;
+  };
+  rate_limit: {
+    slow_below: number;
+    refuse_below: number;
+    max_delay_ms: number;
   };
   fallback: {
     enabled: boolean;
@@ -36,6 +109,7 @@ const DEFAULT_CONFIG: Config = {
   auth: {
     token_env: "GITHUB_TOKEN",
   },
+  hosts: {},
   permissions: {
     read: true,
     trigger: false,
@@ -43,10 +117,44 @@ const DEFAULT_CONFIG: Config = {
     admin: false,
     whitelist_repos: [],
     blacklist_repos: [],
+    policies: [],
   },
   neverhang: {
     api_timeout: 30000,
     log_timeout: 60000,
+    wait_timeout: 600000,
+    retries: {
+      max_attempts: 3,
+      base_delay_ms: 500,
+      max_delay_ms: 8000,
+    },
+  },
+  cache: {
+    enabled: true,
+    dir: join(homedir(), ".cache", "github-actions-mcp"),
+    max_bytes: 1024 * 1024 * 1024,
+  },
+  webhook: {
+    enabled: false,
+    host: "127.0.0.1",
+    port: 8787,
+    path: "/webhook",
+    secret_env: "GHA_MCP_WEBHOOK_SECRET",
+    max_events: 500,
+  },
+  confirm_writes: {
+    enabled: false,
+    ttl_seconds: 300,
+    repos: [],
+  },
+  audit: {
+    enabled: true,
+    path: join(homedir(), ".local", "state", "github-actions-mcp", "audit.jsonl"),
+  },
+  rate_limit: {
+    slow_below: 500,
+    refuse_below: 100,
+    max_delay_ms: 5000,
   },
   fallback: {
     enabled: false,
@@ -87,6 +195,19 @@ export function loadConfig(): Config {
       ...DEFAULT_CONFIG.auth,
       ...fileConfig.auth,
     },
+    hosts: Object.fromEntries(
+      Object.entries(fileConfig.hosts ?? {}).map(([alias, host]) => [alias, {
+        ...host,
+        // Never fall back to the github.com token for another host
+        auth: {
+          ...host.auth,
+          token_env: host.auth?.token_env ?? `GHA_MCP_${alias.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_TOKEN`,
+        },
+        whitelist_repos: host.whitelist_repos ?? [],
+        blacklist_repos: host.blacklist_repos ?? [],
+        policies: host.policies ?? [],
+      }])
+    ),
     permissions: {
       ...DEFAULT_CONFIG.permissions,
       ...fileConfig.permissions,
@@ -94,6 +215,30 @@ export function loadConfig(): Config {
     neverhang: {
       ...DEFAULT_CONFIG.neverhang,
       ...fileConfig.neverhang,
+      retries: {
+        ...DEFAULT_CONFIG.neverhang.retries,
+        ...fileConfig.neverhang?.retries,
+      },
+    },
+    cache: {
+      ...DEFAULT_CONFIG.cache,
+      ...fileConfig.cache,
+    },
+    webhook: {
+      ...DEFAULT_CONFIG.webhook,
+      ...fileConfig.webhook,
+    },
+    confirm_writes: {
+      ...DEFAULT_CONFIG.confirm_writes,
+      ...fileConfig.confirm_writes,
+    },
+    audit: {
+      ...DEFAULT_CONFIG.audit,
+      ...fileConfig.audit,
+    },
+    rate_limit: {
+      ...DEFAULT_CONFIG.rate_limit,
+      ...fileConfig.rate_limit,
     },
     fallback: {
       ...DEFAULT_CONFIG.fallback,
@@ -107,6 +252,14 @@ export function loadConfig(): Config {
     config.neverhang.api_timeout = parseInt(process.env.GHA_MCP_TIMEOUT, 10);
   }
 
+  // Allow "~/..." for the cache directory and audit log
+  if (config.cache.dir.startsWith("~/")) {
+    config.cache.dir = join(homedir(), config.cache.dir.slice(2));
+  }
+  if (config.audit.path.startsWith("~/")) {
+    config.audit.path = join(homedir(), config.audit.path.slice(2));
+  }
+
   if (bypassMode) {
     console.error("[github-actions-mcp] WARNING: Running with --bypass-permissions");
     console.error("[github-actions-mcp] All permission checks disabled. You own the consequences.");
@@ -0,0 +1,80 @@
+/**
+ * Confirmation tokens for write tools
+ *
+ * With `confirm_writes` enabled, a write tool called without a token only
+ * returns a preview of what it would do plus a short-lived, single-use token.
+ * The write happens when the tool is called again with that token and the
+ * same arguments.
+ */
+
+import { randomBytes } from "crypto";
+
+interface PendingWrite {
+  key: string;
+  expires_at: number;
+}
+
+/**
+ * Identity of a write: tool, canonical repo and arguments (key order ignored)
+ */
+export function confirmationKey(tool: string, repo: string, args: Record<string, unknown>): string {
+  return JSON.stringify([tool, repo.toLowerCase(), sortKeys(args)]);
+}
+
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingWrite>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Issue a token for a previewed write
+   */
+  issue(key: string): { token: string; expires_at: string } {
+    this.prune();
+
+    const token = randomBytes(12).toString("base64url");
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { key, expires_at: expiresAt });
+
+    return { token, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Consume a token; throws unless it was issued for exactly this write and
+   * hasn't expired. A token works once, even when the check fails.
+   */
+  redeem(token: string, key: string): void {
+    const entry = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!entry) {
+      throw new Error("Confirmation token unknown or already used. Call the tool without confirm_token for a new preview");
+    }
+    if (entry.expires_at < Date.now()) {
+      throw new Error("Confirmation token expired. Call the tool without confirm_token for a new preview");
+    }
+    if (entry.key !== key) {
+      throw new Error("Confirmation token was issued for a different call. Arguments must match the preview exactly");
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expires_at < now) this.pending.delete(token);
+    }
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, sortKeys(v)])
+    );
+  }
+  return value;
+}
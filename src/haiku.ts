@@ -84,7 +84,7 @@ function buildDiagnosisPrompt(context: FailureContext, maxLogLines: number): str
     .join("\n");
 
   const logsSection = context.logs
-    ? `\n\nRelevant logs (last ${maxLogLines} lines):\n\`\`\`\n${truncateLogs(context.logs, maxLogLines)}\n\`\`\``
+    ? `\n\nLog excerpts from failed steps (up to ${maxLogLines} lines):\n\`\`\`\n${truncateLogs(context.logs, maxLogLines)}\n\`\`\``
     : "";
 
   return `Analyze this CI/CD failure and provide a diagnosis.
@@ -0,0 +1,164 @@
+/**
+ * GitHub hosts - github.com plus any number of GitHub Enterprise Servers
+ *
+ * Repository arguments are "owner/repo" for github.com, or prefixed with a
+ * configured host as "host/owner/repo", where host is the server's hostname
+ * or its alias in `Config.hosts`. Each host has its own API base URL,
+ * credentials, and whitelist/blacklist.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import type { Config, HostConfig } from "./config.js";
+import { GitHubAuth, type AuthStatus } from "./auth.js";
+
+export const DEFAULT_HOST = "github.com";
+
+export interface RepoRef {
+  /** Canonical hostname, DEFAULT_HOST for github.com */
+  host: string;
+  owner: string;
+  repo: string;
+  /** "owner/repo" on github.com, "hostname/owner/repo" elsewhere */
+  full: string;
+}
+
+/**
+ * Split a repository argument into host, owner and repo
+ */
+export function parseRepoRef(config: Config, repo: string): RepoRef {
+  const parts = repo.split("/");
+
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    return { host: DEFAULT_HOST, owner: parts[0], repo: parts[1], full: repo };
+  }
+
+  if (parts.length === 3 && parts[0] && parts[1] && parts[2]) {
+    const host = resolveHost(config, parts[0]);
+    const [, owner, repoName] = parts;
+    return {
+      host,
+      owner,
+      repo: repoName,
+      full: host === DEFAULT_HOST ? `${owner}/${repoName}` : `${host}/${owner}/${repoName}`,
+    };
+  }
+
+  throw new Error(`Invalid repo format: "${repo}". Expected "owner/repo" or "host/owner/repo"`);
+}
+
+/**
+ * Hostname for a host alias or hostname (case-insensitive)
+ */
+export function resolveHost(config: Config, name: string): string {
+  const wanted = name.toLowerCase();
+  if (wanted === DEFAULT_HOST) return DEFAULT_HOST;
+
+  for (const [alias, host] of Object.entries(config.hosts)) {
+    if (alias.toLowerCase() === wanted || host.hostname.toLowerCase() === wanted) {
+      return host.hostname.toLowerCase();
+    }
+  }
+
+  const known = [DEFAULT_HOST, ...Object.keys(config.hosts)];
+  throw new Error(`Unknown GitHub host "${name}". Configured hosts: ${known.join(", ")}`);
+}
+
+/**
+ * A host's config entry, or undefined for github.com
+ */
+export function hostConfig(config: Config, host: string): HostConfig | undefined {
+  if (host === DEFAULT_HOST) return undefined;
+  return Object.values(config.hosts).find((h) => h.hostname.toLowerCase() === host);
+}
+
+/**
+ * One GitHubAuth per host; picks the client for each call's repository
+ */
+export class GitHubHosts {
+  private readonly auths = new Map<string, GitHubAuth>();
+
+  constructor(private readonly config: Config) {
+    this.auths.set(DEFAULT_HOST, new GitHubAuth(config.auth, {
+      label: DEFAULT_HOST,
+      api_timeout: config.neverhang.api_timeout,
+    }));
+
+    for (const host of Object.values(config.hosts)) {
+      this.auths.set(host.hostname.toLowerCase(), new GitHubAuth(host.auth, {
+        label: host.hostname,
+        base_url: host.base_url ?? `https://${host.hostname}/api/v3`,
+        api_timeout: config.neverhang.api_timeout,
+      }));
+    }
+  }
+
+  /**
+   * Host of a call's repo: "owner/repo", "host/owner/repo", "*" (github.com)
+   * or "host/*" for host-level calls
+   */
+  hostOf(repo: string): string {
+    if (repo === "*") return DEFAULT_HOST;
+    if (repo.endsWith("/*") && repo.split("/").length === 2) {
+      return resolveHost(this.config, repo.slice(0, -2));
+    }
+    return parseRepoRef(this.config, repo).host;
+  }
+
+  /**
+   * The rate limit a call for `repo` draws on: the host's, or as a GitHub
+   * App the installation's ("host@account"), since every installation has
+   * its own quota
+   */
+  quotaKey(repo: string): string {
+    const account = this.installationAccount(repo);
+    const host = this.hostOf(repo);
+    return account ? `${host}@${account}` : host;
+  }
+
+  /**
+   * Account of the app installation a call for `repo` uses, null with a token
+   */
+  installationAccount(repo: string): string | null {
+    const [auth, scope] = this.authFor(repo);
+    return auth.installationAccount(scope);
+  }
+
+  async octokitFor(repo: string, signal?: AbortSignal): Promise<Octokit> {
+    const [auth, scope] = this.authFor(repo);
+    return auth.octokitFor(scope, signal);
+  }
+
+  /** The host's credentials, and what to ask them for ("owner/repo" or "*") */
+  private authFor(repo: string): [GitHubAuth, string] {
+    const auth = this.auths.get(this.hostOf(repo))!;
+
+    if (repo === "*" || repo.endsWith("/*")) {
+      return [auth, "*"];
+    }
+
+    const ref = parseRepoRef(this.config, repo);
+    return [auth, `${ref.owner}/${ref.repo}`];
+  }
+
+  hosts(): string[] {
+    return [...this.auths.keys()];
+  }
+
+  /**
+   * Credential problems per host (empty when every host can authenticate)
+   */
+  missingCredentials(): string[] {
+    const problems: string[] = [];
+    for (const [host, auth] of this.auths) {
+      const missing = auth.missingCredentials();
+      if (missing) problems.push(`${host}: ${missing}`);
+    }
+    return problems;
+  }
+
+  status(): Record<string, AuthStatus> {
+    return Object.fromEntries(
+      [...this.auths.entries()].map(([host, auth]) => [host, auth.status()])
+    );
+  }
+}
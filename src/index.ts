@@ -7,14 +7,56 @@
  * @license MIT
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ResourceTemplate,
+  type ReadResourceTemplateCallback,
+  type ResourceMetadata,
+  type ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { Octokit } from "@octokit/rest";
-import { z } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { Octokit } from "@octokit/rest";
+import { z, type ZodRawShape } from "zod";
+import { randomUUID } from "crypto";
 import { loadConfig, type Config } from "./config.js";
-import { checkPermission, checkRepoAccess } from "./permissions.js";
-import { withTimeout } from "./utils.js";
+import {
+  checkPermission,
+  checkGlobalPermission,
+  checkRepoAccess,
+  canAccessRepo,
+  checkPolicy,
+  policyNeedsDetails,
+  requiresConfirmation,
+  type PolicyTarget,
+} from "./permissions.js";
+import { GitHubHosts, parseRepoRef, resolveHost, DEFAULT_HOST, type RepoRef } from "./hosts.js";
+import { GitHubClient, isTransient } from "./client.js";
+import { LogCache, runLogKey, jobLogKey, jobMetaKey } from "./cache.js";
+import { WebhookState, startWebhookReceiver } from "./webhook.js";
+import { ConfirmationStore, confirmationKey } from "./confirm.js";
+import { AuditLog, noteConfirmation } from "./audit.js";
+import { sleep } from "./utils.js";
+import { parseWorkflow, lintWorkflow, validateDispatchInputs, type DispatchInput } from "./workflow.js";
 import { isHaikuEnabled, diagnoseWithHaiku } from "./haiku.js";
+import { classifyFailure, errorSignature, type ClassifierInput } from "./classifier.js";
+import {
+  extractRunLogs,
+  filterJobLines,
+  matchesJob,
+  splitJobLog,
+  cleanLogLine,
+  extractErrorWindows,
+  diffLogLines,
+  searchRunLogs,
+  type LogMatch,
+} from "./logs.js";
 
 // ============================================================================
 // INITIALIZATION
@@ -22,126 +64,2710 @@ import { isHaikuEnabled, diagnoseWithHaiku } from "./haiku.js";
 
 const config = loadConfig();
 
-const octokit = new Octokit({
-  auth: process.env[config.auth.token_env],
-  request: {
-    timeout: config.neverhang.api_timeout,
+const hosts = new GitHubHosts(config);
+
+const github = new GitHubClient(config, hosts);
+
+const logCache = new LogCache(config.cache);
+
+const webhooks = new WebhookState(config.webhook.max_events);
+
+const confirmations = new ConfirmationStore(config.confirm_writes.ttl_seconds * 1000);
+
+const audit = new AuditLog(config.audit, !!config.bypass_permissions);
+
+const server = new McpServer({
+  name: "github-actions-mcp",
+  version: "0.1.0",
+});
+
+/**
+ * Canonical form of a repo argument for the audit log, as given if invalid
+ */
+function auditRepo(repo: string): string {
+  try {
+    return parseRepoRef(config, repo).full;
+  } catch {
+    return repo;
+  }
+}
+
+/**
+ * Register a tool whose every call is written to the audit log
+ */
+function tool<Args extends ZodRawShape>(
+  name: string,
+  description: string,
+  schema: Args,
+  handler: ToolCallback<Args>
+): void {
+  // Registered under the plain shape type: `handler` keeps its own, exact one
+  const shape: ZodRawShape = schema;
+
+  const audited: ToolCallback<ZodRawShape> = (args, extra) => {
+    const client = server.server.getClientVersion();
+    const { repo } = args;
+
+    return audit.run(
+      {
+        tool: name,
+        repo: typeof repo === "string" ? auditRepo(repo) : null,
+        client: client ? `${client.name}/${client.version}` : null,
+        args,
+      },
+      () => handler(args, extra)
+    );
+  };
+
+  server.tool(name, description, shape, audited);
+}
+
+// Default per-job line cap for log tools, keeps responses context-sized
+const DEFAULT_LOG_TAIL = 500;
+
+// Max failed jobs whose logs are pulled for a diagnosis
+const MAX_DIAGNOSE_JOBS = 5;
+
+// Polling cadence while waiting on a run (adaptive between these bounds),
+// and while looking for a dispatched one
+const RUN_POLL_MIN_MS = 5000;
+const RUN_POLL_MAX_MS = 60000;
+
+// How often a subscribed run that has completed is checked for a re-run
+// (webhook deliveries for it wake the check earlier)
+const COMPLETED_RUN_POLL_MS = 300000;
+const JOBS_PER_PAGE = 100;
+const DISPATCH_POLL_INTERVAL_MS = 3000;
+// How long to look for a run-name carrying the correlation ID before matching like without one
+const CORRELATION_GRACE_MS = 30000;
+
+// Allowed clock skew between us and GitHub when matching dispatched runs
+const DISPATCH_SKEW_MS = 10000;
+
+// Dispatch inputs; booleans and numbers are sent as strings, like GitHub's UI
+const DISPATCH_INPUTS_SCHEMA = z.record(z.union([z.string(), z.number(), z.boolean()]))
+  .optional()
+  .describe("Workflow inputs, checked against the workflow's workflow_dispatch inputs (see gha_describe_dispatch_inputs)");
+
+const CONFIRM_TOKEN_SCHEMA = z.string().optional().describe(
+  "Token from this tool's dry-run preview, when write confirmation is enabled"
+);
+
+const SKIP_VALIDATION_SCHEMA = z.boolean().optional().describe(
+  "Dispatch without reading the workflow file to check inputs, e.g. for a token without Contents read (default: false)"
+);
+
+// Max commits listed when comparing two runs
+const MAX_COMPARE_COMMITS = 50;
+
+// Default log search bounds: runs searched and archive bytes downloaded
+const DEFAULT_SEARCH_RUNS = 20;
+const DEFAULT_SEARCH_BYTES = 50 * 1024 * 1024;
+// Caller-supplied regexes are compiled and shipped to a worker; keep them small
+const MAX_SEARCH_PATTERN_LENGTH = 500;
+
+// Flaky detection: jobs whose logs are sampled, and failing attempts per job
+const MAX_FLAKY_JOBS = 10;
+const MAX_FLAKY_LOG_SAMPLES = 3;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function parseRepo(repo: string): RepoRef {
+  return parseRepoRef(config, repo);
+}
+
+function elapsedSeconds(startedAt: string, completedAt?: string | null): number {
+  const start = new Date(startedAt).getTime();
+  const end = completedAt ? new Date(completedAt).getTime() : Date.now();
+  return Math.floor((end - start) / 1000);
+}
+
+function formatDuration(startedAt: string, completedAt?: string | null): string {
+  const seconds = elapsedSeconds(startedAt, completedAt);
+
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+type WorkflowJob = Awaited<ReturnType<Octokit["rest"]["actions"]["getJobForWorkflowRun"]>>["data"];
+
+function formatJob(j: WorkflowJob) {
+  return {
+    id: j.id,
+    name: j.name,
+    status: j.status,
+    conclusion: j.conclusion,
+    started_at: j.started_at,
+    duration: j.started_at ? formatDuration(j.started_at, j.completed_at) : null,
+    steps: j.steps?.map((s) => ({
+      name: s.name,
+      status: s.status,
+      conclusion: s.conclusion,
+      number: s.number,
+    })),
+  };
+}
+
+type WorkflowRun = Awaited<ReturnType<Octokit["rest"]["actions"]["getWorkflowRun"]>>["data"];
+
+function formatRun(r: WorkflowRun) {
+  return {
+    id: r.id,
+    workflow: r.name,
+    attempt: r.run_attempt,
+    status: r.status,
+    conclusion: r.conclusion,
+    branch: r.head_branch,
+    commit: r.head_sha.substring(0, 7),
+    commit_message: r.head_commit?.message || "",
+    triggered_by: r.event,
+    actor: r.actor?.login,
+    started_at: r.run_started_at,
+    duration: r.run_started_at
+      ? formatDuration(r.run_started_at, r.updated_at)
+      : null,
+    url: r.html_url,
+  };
+}
+
+/**
+ * What a run-level write acts on, for policy checks
+ */
+function runTarget(repo: string, run: WorkflowRun): PolicyTarget {
+  // Reusable workflow runs can carry "@ref" after the path
+  return { repo, workflow: run.path.split("@")[0], ref: run.head_branch ?? undefined };
+}
+
+function summarizeFailedJobs(jobs: WorkflowJob[]) {
+  return jobs
+    .filter((j) => j.conclusion === "failure")
+    .map((j) => ({
+      id: j.id,
+      name: j.name,
+      failed_steps: (j.steps || [])
+        .filter((s) => s.conclusion === "failure")
+        .map((s) => ({ number: s.number, name: s.name })),
+    }));
+}
+
+/**
+ * Fetch a run as of one of its attempts (latest attempt if omitted)
+ */
+async function getRunAttempt(
+  repo: string,
+  run_id: number,
+  attempt?: number,
+  signal?: AbortSignal
+): Promise<WorkflowRun> {
+  const { owner, repo: repoName } = parseRepo(repo);
+
+  // Delivered by webhook: workflow_run payloads are the same object the API returns
+  const delivered = webhooks.getCompletedRun(parseRepo(repo).full, run_id, attempt);
+  if (delivered) {
+    return delivered as WorkflowRun;
+  }
+
+  if (attempt === undefined) {
+    const response = await github.call(
+      { repo, family: "runs", signal },
+      (s, octokit) => octokit.rest.actions.getWorkflowRun({ owner, repo: repoName, run_id, request: { signal: s } })
+    );
+    return response.data;
+  }
+
+  const response = await github.call(
+    { repo, family: "runs", signal },
+    (s, octokit) => octokit.rest.actions.getWorkflowRunAttempt({
+      owner,
+      repo: repoName,
+      run_id,
+      attempt_number: attempt,
+      request: { signal: s },
+    })
+  );
+  return response.data;
+}
+
+/**
+ * Jobs of one attempt (latest if omitted)
+ *
+ * For the latest attempt this includes jobs carried over from earlier
+ * attempts that were not re-run, like the GitHub UI shows.
+ */
+async function listAttemptJobs(
+  repo: string,
+  run_id: number,
+  attempt?: number,
+  signal?: AbortSignal
+): Promise<WorkflowJob[]> {
+  if (attempt === undefined) {
+    return listRunJobs(repo, run_id, "latest", signal);
+  }
+
+  const { owner, repo: repoName } = parseRepo(repo);
+  return collectJobPages(async (page) => (await github.call(
+    { repo, family: "jobs", signal },
+    (s, octokit) => octokit.rest.actions.listJobsForWorkflowRunAttempt({
+      owner,
+      repo: repoName,
+      run_id,
+      attempt_number: attempt,
+      per_page: JOBS_PER_PAGE,
+      page,
+      request: { signal: s },
+    })
+  )).data);
+}
+
+/**
+ * Jobs of a run: the latest attempt's, or with "all" those of every attempt
+ */
+async function listRunJobs(
+  repo: string,
+  run_id: number,
+  filter: "latest" | "all",
+  signal?: AbortSignal
+): Promise<WorkflowJob[]> {
+  const { owner, repo: repoName } = parseRepo(repo);
+  return collectJobPages(async (page) => (await github.call(
+    { repo, family: "jobs", signal },
+    (s, octokit) => octokit.rest.actions.listJobsForWorkflowRun({
+      owner,
+      repo: repoName,
+      run_id,
+      filter,
+      per_page: JOBS_PER_PAGE,
+      page,
+      request: { signal: s },
+    })
+  )).data);
+}
+
+/**
+ * Follow a job listing's pages until `total_count` jobs are in
+ *
+ * Big matrices with retries easily pass one page of 100.
+ */
+async function collectJobPages(
+  fetchPage: (page: number) => Promise<{ total_count: number; jobs: WorkflowJob[] }>
+): Promise<WorkflowJob[]> {
+  const jobs: WorkflowJob[] = [];
+  for (let page = 1; ; page++) {
+    const data = await fetchPage(page);
+    jobs.push(...data.jobs);
+    if (data.jobs.length < JOBS_PER_PAGE || jobs.length >= data.total_count) {
+      return jobs;
+    }
+  }
+}
+
+/**
+ * The `repo` for calls that concern a whole host rather than a repository
+ */
+function hostScope(host: string): string {
+  return host === DEFAULT_HOST ? "*" : `${host}/*`;
+}
+
+const viewerLogins = new Map<string, string | null>();
+
+/**
+ * Login of the token's user on a repo's host, to match runs we dispatched
+ * (null for tokens without a user, e.g. app installations). Only that
+ * answer is remembered; after any other failure the next call asks again.
+ */
+async function getViewerLogin(repo: string, signal?: AbortSignal): Promise<string | null> {
+  const { host } = parseRepo(repo);
+  const cached = viewerLogins.get(host);
+  if (cached !== undefined) return cached;
+
+  let login: string | null;
+  try {
+    const response = await github.call(
+      { repo: hostScope(host), family: "meta", signal },
+      (s, octokit) => octokit.rest.users.getAuthenticated({ request: { signal: s } })
+    );
+    login = response.data.login;
+  } catch (error) {
+    // A 403 can also be a rate limit, which isTransient covers
+    const status = (error as { status?: number }).status;
+    if (isTransient(error) || (status !== 401 && status !== 403 && status !== 404)) return null;
+    login = null;
+  }
+  viewerLogins.set(host, login);
+  return login;
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type RunProgress = (jobs: WorkflowJob[], changes: string[]) => Promise<void>;
+
+/**
+ * Poll a run until it completes or the deadline passes
+ *
+ * Polling starts fast and backs off while nothing changes (and stays slow
+ * while the rate limit is low). Jobs are only re-listed when the run reports
+ * an update. `onProgress` hears about job status changes and about the
+ * run's own status, conclusion and attempt. With the webhook receiver running, deliveries for the run wake
+ * the loop instead and polling only covers missed deliveries. Returns the
+ * last seen state either way; callers check `run.status`.
+ *
+ * A poll that fails transiently (timeouts, 5xx, the client refusing calls
+ * while quota is low) doesn't end the wait: the loop backs off and tries
+ * again, and `error` reports the failure if the deadline hits first. Other
+ * errors, or failing before the run was seen at all, still throw.
+ */
+async function waitForRun(
+  repo: string,
+  run_id: number,
+  deadline: number,
+  signal?: AbortSignal,
+  onProgress?: RunProgress
+): Promise<{ run: WorkflowRun; jobs: WorkflowJob[]; error: string | null }> {
+  const seen = new Map<number, string>();
+  let runState: string | null = null;
+  let run: WorkflowRun | null = null;
+  let lastUpdated: string | null = null;
+  let jobs: WorkflowJob[] = [];
+  let interval = RUN_POLL_MIN_MS;
+  let delivered = false;
+  let lastError: unknown = null;
+
+  for (;;) {
+    try {
+      const current = await getRunAttempt(repo, run_id, undefined, signal);
+
+      // Job deliveries don't always move the run's updated_at
+      if (current.updated_at !== lastUpdated || delivered) {
+        jobs = await listRunJobs(repo, run_id, "latest", signal);
+        lastUpdated = current.updated_at;
+
+        const changes: string[] = [];
+        const state = `${current.conclusion ?? current.status} (attempt ${current.run_attempt ?? 1})`;
+        if (state !== runState) {
+          changes.push(`run: ${runState ?? "new"} → ${state}`);
+          runState = state;
+        }
+        for (const job of jobs) {
+          const previous = seen.get(job.id);
+          if (previous !== job.status) {
+            changes.push(`${job.name}: ${previous ?? "new"} → ${job.status}`);
+            seen.set(job.id, job.status);
+          }
+        }
+
+        if (changes.length > 0 && onProgress) {
+          await onProgress(jobs, changes);
+        }
+        interval = RUN_POLL_MIN_MS;
+      } else {
+        interval = Math.min(RUN_POLL_MAX_MS, Math.round(interval * 1.5));
+      }
+
+      run = current;
+      lastError = null;
+    } catch (error) {
+      if (signal?.aborted || !isTransient(error)) throw error;
+
+      console.error(`[github-actions-mcp] Polling run #${run_id} failed, backing off:`, error);
+      lastError = error;
+      interval = Math.min(RUN_POLL_MAX_MS, interval * 2);
+    }
+
+    if (github.getThrottleState(hosts.quotaKey(repo)) !== "normal") {
+      interval = RUN_POLL_MAX_MS;
+    }
+
+    const wait = Math.min(interval, deadline - Date.now());
+    if ((run?.status === "completed" && !lastError) || wait <= 0) {
+      if (!run) throw lastError;
+      return {
+        run,
+        jobs,
+        error: lastError ? (lastError instanceof Error ? lastError.message : String(lastError)) : null,
+      };
+    }
+
+    if (webhooks.listening) {
+      delivered = await webhooks.waitForRun(
+        parseRepo(repo).full,
+        run_id,
+        Math.min(RUN_POLL_MAX_MS, deadline - Date.now()),
+        signal
+      );
+    } else {
+      await sleep(wait, signal);
+    }
+  }
+}
+
+/**
+ * Build a RunProgress callback that sends MCP progress notifications,
+ * or undefined when the client didn't ask for progress
+ */
+function progressNotifier(extra: ToolExtra): RunProgress | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  return async (jobs, changes) => {
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: jobs.filter((j) => j.status === "completed").length,
+        total: jobs.length,
+        message: changes.join("; "),
+      },
+    });
+  };
+}
+
+/**
+ * Most recent successful run of the same workflow on the same branch,
+ * created before the given run
+ */
+async function findLastSuccessfulRun(
+  repo: string,
+  run: WorkflowRun,
+  signal?: AbortSignal
+): Promise<WorkflowRun | null> {
+  const { owner, repo: repoName } = parseRepo(repo);
+  const response = await github.call(
+    { repo, family: "runs", signal },
+    (s, octokit) => octokit.rest.actions.listWorkflowRuns({
+      owner,
+      repo: repoName,
+      workflow_id: run.workflow_id,
+      branch: run.head_branch ?? undefined,
+      status: "success",
+      per_page: 20,
+      request: { signal: s },
+    })
+  );
+
+  const created = new Date(run.created_at).getTime();
+  return response.data.workflow_runs.find(
+    (r) => r.id !== run.id && new Date(r.created_at).getTime() < created
+  ) ?? null;
+}
+
+type Workflow = Awaited<ReturnType<Octokit["rest"]["actions"]["getWorkflow"]>>["data"];
+
+/**
+ * A workflow's metadata and its YAML at `ref` (default branch if omitted)
+ *
+ * `text` is null when the file doesn't exist at that ref, e.g. for
+ * dynamic workflows such as Dependabot or CodeQL default setup.
+ */
+async function fetchWorkflowYaml(
+  repo: string,
+  workflow: string | number,
+  ref?: string,
+  signal?: AbortSignal
+): Promise<{ workflow: Workflow; text: string | null }> {
+  const metadata = await fetchWorkflow(repo, workflow, signal);
+  return { workflow: metadata, text: await readWorkflowFile(repo, metadata.path, ref, signal) };
+}
+
+async function fetchWorkflow(repo: string, workflow: string | number, signal?: AbortSignal): Promise<Workflow> {
+  const { owner, repo: repoName } = parseRepo(repo);
+  const response = await github.call(
+    { repo, family: "workflows", signal },
+    (s, octokit) => octokit.rest.actions.getWorkflow({
+      owner,
+      repo: repoName,
+      workflow_id: workflow,
+      request: { signal: s },
+    })
+  );
+  return response.data;
+}
+
+/**
+ * A workflow file's YAML at `ref`, or null when it doesn't exist there
+ */
+async function readWorkflowFile(
+  repo: string,
+  path: string,
+  ref?: string,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const { owner, repo: repoName } = parseRepo(repo);
+  try {
+    const content = await github.call(
+      { repo, family: "contents", signal },
+      (s, octokit) => octokit.rest.repos.getContent({
+        owner,
+        repo: repoName,
+        path,
+        ref,
+        mediaType: { format: "raw" },
+        request: { signal: s },
+      })
+    );
+    return String(content.data);
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * A workflow's `workflow_dispatch` inputs as declared at `ref`
+ *
+ * Throws when the workflow can't be read or has no workflow_dispatch trigger.
+ */
+async function getDispatchInputs(
+  repo: string,
+  workflow: string | number,
+  ref?: string,
+  signal?: AbortSignal
+): Promise<{ workflow: Workflow; path: string; inputs: Record<string, DispatchInput> }> {
+  const fetched = await fetchWorkflowYaml(repo, workflow, ref, signal);
+  const path = fetched.workflow.path;
+  if (fetched.text === null) {
+    throw new Error(`${path} not found${ref ? ` at ${ref}` : ""} in ${repo}`);
+  }
+  return { workflow: fetched.workflow, path, inputs: dispatchInputsOf(repo, path, fetched.text, ref) };
+}
+
+/**
+ * What to validate a dispatch against. Dispatching only needs actions:write,
+ * but an unreadable file (403 or 404) fails the dispatch rather than letting
+ * unchecked inputs through; only an explicit `skipValidation` sends them as
+ * given, with `inputs` null and a `warning`.
+ */
+async function getDispatchSchema(
+  repo: string,
+  workflow: string,
+  ref: string,
+  skipValidation: boolean,
+  signal?: AbortSignal
+): Promise<{
+  workflow: Workflow;
+  path: string;
+  inputs: Record<string, DispatchInput> | null;
+  warning: string | null;
+}> {
+  const metadata = await fetchWorkflow(repo, workflow, signal);
+  const path = metadata.path;
+
+  if (skipValidation) {
+    return {
+      workflow: metadata,
+      path,
+      inputs: null,
+      warning: `skip_validation is set, so inputs were not validated against ${path}`,
+    };
+  }
+
+  let text: string | null;
+  try {
+    text = await readWorkflowFile(repo, path, ref, signal);
+  } catch (error) {
+    if ((error as { status?: number }).status !== 403) throw error;
+    throw new Error(
+      `Can't read ${path} at ${ref} in ${repo} to validate the inputs: the token lacks Contents read ` +
+      `permission (contents: read). Grant it, or pass skip_validation: true to dispatch unvalidated`
+    );
+  }
+
+  if (text === null) {
+    throw new Error(
+      `${path} not found at ${ref} in ${repo}, so the inputs can't be validated. ` +
+      `Check the ref, or pass skip_validation: true to dispatch unvalidated`
+    );
+  }
+  return { workflow: metadata, path, inputs: dispatchInputsOf(repo, path, text, ref), warning: null };
+}
+
+function dispatchInputsOf(repo: string, path: string, text: string, ref?: string): Record<string, DispatchInput> {
+  const inputs = parseWorkflow(text).dispatch_inputs;
+  if (!inputs) {
+    throw new Error(`${path} has no workflow_dispatch trigger${ref ? ` at ${ref}` : ""} in ${repo}, it can't be dispatched`);
+  }
+  return inputs;
+}
+
+/**
+ * Validated inputs for a dispatch, or the given ones as strings when there
+ * is no schema to check them against
+ */
+function resolveDispatchInputs(
+  schema: Record<string, DispatchInput> | null,
+  given: Record<string, string | number | boolean> = {}
+): { inputs: Record<string, string>; defaults_applied: string[] } {
+  if (schema) return validateDispatchInputs(schema, given);
+  return {
+    inputs: Object.fromEntries(Object.entries(given).map(([name, value]) => [name, String(value)])),
+    defaults_applied: [],
+  };
+}
+
+type TextResult = { content: Array<{ type: "text"; text: string }> };
+
+/**
+ * Gate a write behind a dry-run preview when confirm_writes covers the repo
+ *
+ * Returns the preview response for the tool to return as is, or null when
+ * the write may go ahead: no confirmation needed, or a valid `token`.
+ */
+async function confirmWrite(
+  tool: string,
+  repo: string,
+  args: Record<string, unknown>,
+  token: string | undefined,
+  preview: () => Promise<Record<string, unknown>>
+): Promise<TextResult | null> {
+  if (!requiresConfirmation(config, repo)) return null;
+
+  const key = confirmationKey(tool, parseRepo(repo).full, args);
+  if (token) {
+    confirmations.redeem(token, key);
+    noteConfirmation("confirmed");
+    return null;
+  }
+
+  const details = await preview();
+  const issued = confirmations.issue(key);
+  noteConfirmation("preview");
+  const result = {
+    dry_run: true,
+    message: `Nothing was changed. To go ahead, call ${tool} again with the same arguments and confirm_token`,
+    repo,
+    ...details,
+    confirm_token: issued.token,
+    expires_at: issued.expires_at,
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+  };
+}
+
+/**
+ * Preview of a workflow dispatch: the workflow, the commit `ref` points at,
+ * the final inputs and the workflow's active runs on that ref
+ */
+async function previewDispatch(
+  repo: string,
+  workflow: Workflow,
+  ref: string,
+  validated: { inputs: Record<string, string>; defaults_applied: string[] },
+  signal?: AbortSignal
+): Promise<Record<string, unknown>> {
+  const { owner, repo: repoName } = parseRepo(repo);
+
+  const commit = await github.call(
+    { repo, family: "commits", signal },
+    (s, octokit) => octokit.rest.repos.getCommit({
+      owner,
+      repo: repoName,
+      ref,
+      per_page: 1,
+      request: { signal: s },
+    })
+  );
+
+  const runs = await github.call(
+    { repo, family: "runs", signal },
+    (s, octokit) => octokit.rest.actions.listWorkflowRuns({
+      owner,
+      repo: repoName,
+      workflow_id: workflow.id,
+      branch: ref.replace(/^refs\/(heads|tags)\//, ""),
+      per_page: 10,
+      request: { signal: s },
+    })
+  );
+  const active = runs.data.workflow_runs.filter((r) => r.status !== "completed");
+  const sha = commit.data.sha;
+
+  return {
+    workflow: { id: workflow.id, name: workflow.name, path: workflow.path, state: workflow.state },
+    ref,
+    sha,
+    commit_message: commit.data.commit.message.split("\n")[0],
+    inputs: validated.inputs,
+    defaults_applied: validated.defaults_applied,
+    active_runs: active.map(formatRun),
+    latest_run: runs.data.workflow_runs[0] ? formatRun(runs.data.workflow_runs[0]) : null,
+    will: workflow.state === "active"
+      ? `Dispatch ${workflow.path} on ${ref} (${sha.substring(0, 7)}), starting a new run`
+      : `Nothing: ${workflow.path} is ${workflow.state} and can't be dispatched`,
+  };
+}
+
+/**
+ * Download a run attempt's log archive (zip), from the cache when possible
+ * Only completed attempts are cached, their logs never change.
+ */
+async function downloadRunLogs(
+  repo: string,
+  run_id: number,
+  attempt: number,
+  completed: boolean,
+  parent?: AbortSignal
+): Promise<{ archive: Uint8Array; cached: boolean }> {
+  const key = runLogKey(parseRepo(repo).full, run_id, attempt);
+  const cached = logCache.get(key);
+  if (cached) {
+    return { archive: cached, cached: true };
+  }
+
+  const { owner, repo: repoName } = parseRepo(repo);
+  // Octokit follows the redirect to the signed archive URL
+  const response = await github.call(
+    {
+      repo,
+      family: "logs",
+      timeout: config.neverhang.log_timeout,
+      timeoutMessage: `Log download timed out after ${config.neverhang.log_timeout}ms`,
+      signal: parent,
+    },
+    (signal, octokit) => octokit.rest.actions.downloadWorkflowRunAttemptLogs({
+      owner,
+      repo: repoName,
+      run_id,
+      attempt_number: attempt,
+      request: { signal },
+    })
+  );
+
+  const archive = new Uint8Array(response.data as ArrayBuffer);
+  if (completed) {
+    logCache.put(key, archive);
+  }
+  return { archive, cached: false };
+}
+
+/**
+ * Fetch a job, from the cache when it has completed before
+ */
+async function getJob(repo: string, job_id: number, parent?: AbortSignal): Promise<WorkflowJob> {
+  const key = jobMetaKey(parseRepo(repo).full, job_id);
+  const cached = logCache.get(key);
+  if (cached) {
+    return JSON.parse(cached.toString("utf-8")) as WorkflowJob;
+  }
+
+  const { owner, repo: repoName } = parseRepo(repo);
+  const response = await github.call(
+    { repo, family: "jobs", signal: parent },
+    (signal, octokit) => octokit.rest.actions.getJobForWorkflowRun({
+      owner,
+      repo: repoName,
+      job_id,
+      request: { signal },
+    })
+  );
+
+  if (response.data.status === "completed") {
+    logCache.put(key, Buffer.from(JSON.stringify(response.data), "utf-8"));
+  }
+  return response.data;
+}
+
+/**
+ * Download a single job's plain-text log, from the cache when possible
+ */
+async function downloadJobLog(
+  repo: string,
+  job: { id: number; status: string },
+  parent?: AbortSignal
+): Promise<string> {
+  const key = jobLogKey(parseRepo(repo).full, job.id);
+  const cached = logCache.get(key);
+  if (cached) {
+    return cached.toString("utf-8");
+  }
+
+  const { owner, repo: repoName } = parseRepo(repo);
+  const response = await github.call(
+    {
+      repo,
+      family: "logs",
+      timeout: config.neverhang.log_timeout,
+      timeoutMessage: `Log download timed out after ${config.neverhang.log_timeout}ms`,
+      signal: parent,
+    },
+    (signal, octokit) => octokit.rest.actions.downloadJobLogsForWorkflowRun({
+      owner,
+      repo: repoName,
+      job_id: job.id,
+      request: { signal },
+    })
+  );
+
+  const text = String(response.data);
+  if (job.status === "completed") {
+    logCache.put(key, Buffer.from(text, "utf-8"));
+  }
+  return text;
+}
+
+interface FailureExcerpt {
+  job: string;
+  job_id: number;
+  step: string | null;
+  step_number: number | null;
+  start_line: number;
+  end_line: number;
+  lines: string[];
+}
+
+/**
+ * Fetch failed jobs' logs: full failed-step sections, plus the windows
+ * around their errors
+ *
+ * Per-job logs are used so a single failure in a large matrix doesn't pull
+ * the whole run archive. Download failures are reported, not thrown.
+ */
+async function fetchFailureLogs(
+  repo: string,
+  jobs: WorkflowJob[],
+  parent?: AbortSignal
+): Promise<{ steps: ClassifierInput[]; excerpts: FailureExcerpt[]; errors: string[] }> {
+  const steps: ClassifierInput[] = [];
+  const excerpts: FailureExcerpt[] = [];
+  const errors: string[] = [];
+
+  for (const job of jobs.slice(0, MAX_DIAGNOSE_JOBS)) {
+    let text: string;
+    try {
+      text = await downloadJobLog(repo, job, parent);
+    } catch (error) {
+      errors.push(`${job.name}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const jobSteps = job.steps || [];
+    const failedNumbers = new Set(
+      jobSteps.filter((s) => s.conclusion === "failure").map((s) => s.number)
+    );
+    const sections = splitJobLog(text, jobSteps);
+
+    // Jobs can fail outside any step (e.g. setup), fall back to the last section
+    let failedSections = sections.filter(
+      (s) => s.step_number !== null && failedNumbers.has(s.step_number)
+    );
+    if (failedSections.length === 0 && sections.length > 0) {
+      failedSections = [sections[sections.length - 1]];
+    }
+
+    for (const section of failedSections) {
+      const lines = section.lines.map((l) =>
+        cleanLogLine(l, { strip_ansi: true, strip_timestamps: true })
+      );
+      steps.push({ job: job.name, step: section.step, lines });
+
+      for (const window of extractErrorWindows(lines)) {
+        excerpts.push({
+          job: job.name,
+          job_id: job.id,
+          step: section.step,
+          step_number: section.step_number,
+          ...window,
+        });
+      }
+    }
+  }
+
+  return { steps, excerpts, errors };
+}
+
+function formatExcerpts(excerpts: FailureExcerpt[]): string {
+  return excerpts
+    .map((e) =>
+      `=== ${e.job} → ${e.step ?? "(unknown step)"} (lines ${e.start_line}-${e.end_line}) ===\n` +
+      e.lines.join("\n")
+    )
+    .join("\n\n");
+}
+
+function statusIcon(conclusion: string | null): string {
+  switch (conclusion) {
+    case "success": return "✓";
+    case "failure": return "✗";
+    case "cancelled": return "⊘";
+    case "skipped": return "⊖";
+    case null: return "●"; // in progress
+    default: return "?";
+  }
+}
+
+// ============================================================================
+// TOOLS: WORKFLOWS (Read)
+// ============================================================================
+
+tool(
+  "gha_list_workflows",
+  "List workflows in a repository",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    state: z.enum(["active", "disabled", "all"]).optional().describe("Filter by state"),
+  },
+  async ({ repo, state = "all" }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    const response = await github.call(
+      { repo, family: "workflows", signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.listRepoWorkflows({
+        owner,
+        repo: repoName,
+        request: { signal },
+      })
+    );
+
+    let workflows = response.data.workflows;
+    if (state !== "all") {
+      workflows = workflows.filter((w) => w.state === state);
+    }
+
+    const result = {
+      total: workflows.length,
+      workflows: workflows.map((w) => ({
+        id: w.id,
+        name: w.name,
+        path: w.path,
+        state: w.state,
+        badge_url: w.badge_url,
+      })),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_get_workflow",
+  "Get workflow metadata and its parsed definition: triggers, jobs, needs graph, matrices, permissions and dispatch inputs",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.union([z.string(), z.number()]).describe("Workflow file name or ID"),
+    ref: z.string().optional().describe("Branch, tag or SHA to read the definition from (default: default branch)"),
+    include_definition: z.boolean().optional().describe("Fetch and parse the YAML (default: true)"),
+    raw: z.boolean().optional().describe("Also return the raw YAML (default: false)"),
+  },
+  async ({ repo, workflow, ref, include_definition = true, raw = false }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    let w: Workflow;
+    let text: string | null = null;
+
+    if (include_definition) {
+      ({ workflow: w, text } = await fetchWorkflowYaml(repo, workflow, ref, extra.signal));
+    } else {
+      const response = await github.call(
+        { repo, family: "workflows", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.getWorkflow({
+          owner,
+          repo: repoName,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+      w = response.data;
+    }
+
+    const result: Record<string, unknown> = {
+      id: w.id,
+      name: w.name,
+      path: w.path,
+      state: w.state,
+      created_at: w.created_at,
+      updated_at: w.updated_at,
+      url: w.html_url,
+    };
+
+    if (include_definition) {
+      result.ref = ref ?? null;
+      if (text === null) {
+        result.definition = null;
+        result.note = `${w.path} not found${ref ? ` at ${ref}` : ""} (dynamic workflows have no file in the repository)`;
+      } else {
+        try {
+          result.definition = parseWorkflow(text);
+        } catch (error) {
+          result.definition = null;
+          result.parse_error = error instanceof Error ? error.message : String(error);
+        }
+        if (raw) result.yaml = text;
+      }
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_lint_workflow",
+  "Check a workflow for common mistakes: unpinned third-party actions, missing permissions, pull_request_target checking out PR code, script injection, undefined or cyclic needs",
+  {
+    repo: z.string().optional().describe("Repository in owner/repo format (with workflow)"),
+    workflow: z.union([z.string(), z.number()]).optional().describe("Workflow file name or ID (with repo)"),
+    ref: z.string().optional().describe("Branch, tag or SHA to read the workflow from (default: default branch)"),
+    yaml: z.string().optional().describe("Workflow YAML to lint instead of fetching one, e.g. an unpushed edit"),
+  },
+  async ({ repo, workflow, ref, yaml }, extra) => {
+    let text = yaml;
+    let source: string | null = null;
+
+    if (text === undefined) {
+      if (!repo || workflow === undefined) {
+        throw new Error("Provide either yaml, or repo and workflow");
+      }
+      checkPermission(config, "read");
+      checkRepoAccess(config, repo);
+
+      const fetched = await fetchWorkflowYaml(repo, workflow, ref, extra.signal);
+      if (fetched.text === null) {
+        throw new Error(`${fetched.workflow.path} not found${ref ? ` at ${ref}` : ""} in ${repo}`);
+      }
+      text = fetched.text;
+      source = fetched.workflow.path;
+    }
+
+    const findings = lintWorkflow(text);
+    const result = {
+      source,
+      ref: source ? ref ?? null : null,
+      errors: findings.filter((f) => f.severity === "error").length,
+      warnings: findings.filter((f) => f.severity === "warning").length,
+      findings,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_describe_dispatch_inputs",
+  "List the inputs a workflow accepts via workflow_dispatch: types, required, defaults and choice options",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.union([z.string(), z.number()]).describe("Workflow file name or ID"),
+    ref: z.string().optional().describe("Branch or tag the workflow would run on (default: default branch)"),
+  },
+  async ({ repo, workflow, ref }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const { path, inputs } = await getDispatchInputs(repo, workflow, ref, extra.signal);
+
+    const result = {
+      workflow: path,
+      ref: ref ?? null,
+      must_provide: Object.keys(inputs).filter((name) => inputs[name].required && inputs[name].default === null),
+      inputs,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// TOOLS: RUNS (Read)
+// ============================================================================
+
+tool(
+  "gha_list_runs",
+  "List workflow runs with filtering",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.string().optional().describe("Filter by workflow file name"),
+    branch: z.string().optional().describe("Filter by branch"),
+    status: z.enum(["queued", "in_progress", "completed"]).optional(),
+    conclusion: z.enum(["success", "failure", "cancelled", "skipped"]).optional(),
+    limit: z.number().min(1).max(100).optional().describe("Max results (default: 10)"),
+  },
+  async ({ repo, workflow, branch, status, conclusion, limit = 10 }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    const params: Parameters<Octokit["rest"]["actions"]["listWorkflowRunsForRepo"]>[0] = {
+      owner,
+      repo: repoName,
+      per_page: limit,
+    };
+
+    if (branch) params.branch = branch;
+    if (status) params.status = status;
+
+    let runs;
+    if (workflow) {
+      const response = await github.call(
+        { repo, family: "runs", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.listWorkflowRuns({
+          ...params,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+      runs = response.data.workflow_runs;
+    } else {
+      const response = await github.call(
+        { repo, family: "runs", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.listWorkflowRunsForRepo({ ...params, request: { signal } })
+      );
+      runs = response.data.workflow_runs;
+    }
+
+    // Filter by conclusion client-side (API doesn't support it directly)
+    if (conclusion) {
+      runs = runs.filter((r) => r.conclusion === conclusion);
+    }
+
+    const formattedRuns = runs.slice(0, limit).map((r) => ({
+      id: r.id,
+      workflow: r.name,
+      status: r.status,
+      conclusion: r.conclusion,
+      branch: r.head_branch,
+      commit: r.head_sha.substring(0, 7),
+      commit_message: r.head_commit?.message?.split("\n")[0] || "",
+      triggered_by: r.event,
+      attempt: r.run_attempt,
+      started_at: r.run_started_at,
+      duration: r.run_started_at
+        ? formatDuration(r.run_started_at, r.updated_at)
+        : null,
+      status_icon: statusIcon(r.conclusion),
+    }));
+
+    // Summary stats
+    const stats = {
+      success: runs.filter((r) => r.conclusion === "success").length,
+      failure: runs.filter((r) => r.conclusion === "failure").length,
+      cancelled: runs.filter((r) => r.conclusion === "cancelled").length,
+      in_progress: runs.filter((r) => r.status === "in_progress").length,
+    };
+
+    const result = {
+      runs: formattedRuns,
+      summary: `Last ${runs.length} runs: ${stats.success} passed, ${stats.failure} failed, ${stats.cancelled} cancelled, ${stats.in_progress} running`,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_get_run",
+  "Get detailed run information including jobs",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    attempt: z.number().min(1).optional().describe("Run attempt number (default: latest)"),
+    include_jobs: z.boolean().optional().describe("Include job details (default: true)"),
+  },
+  async ({ repo, run_id, attempt, include_jobs = true }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const run = await getRunAttempt(repo, run_id, attempt, extra.signal);
+    const result: Record<string, unknown> = formatRun(run);
+
+    if (include_jobs) {
+      const jobs = await listAttemptJobs(repo, run_id, attempt, extra.signal);
+      result.jobs = jobs.map(formatJob);
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_list_run_attempts",
+  "List every attempt of a workflow run with its conclusion and the jobs that ran in it",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+  },
+  async ({ repo, run_id }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const latest = await getRunAttempt(repo, run_id, undefined, extra.signal);
+    const latestAttempt = latest.run_attempt ?? 1;
+
+    // One listing covers the jobs of every attempt
+    const allJobs = await listRunJobs(repo, run_id, "all", extra.signal);
+
+    const attempts = [];
+    for (let n = 1; n <= latestAttempt; n++) {
+      const run = n === latestAttempt
+        ? latest
+        : await getRunAttempt(repo, run_id, n, extra.signal);
+      const jobs = allJobs.filter((j) => (j.run_attempt ?? 1) === n);
+
+      attempts.push({
+        attempt: n,
+        status: run.status,
+        conclusion: run.conclusion,
+        status_icon: statusIcon(run.conclusion),
+        triggered_by: run.triggering_actor?.login ?? run.actor?.login,
+        started_at: run.run_started_at,
+        duration: run.run_started_at ? formatDuration(run.run_started_at, run.updated_at) : null,
+        jobs: jobs.map((j) => ({
+          id: j.id,
+          name: j.name,
+          status: j.status,
+          conclusion: j.conclusion,
+        })),
+        failed_jobs: summarizeFailedJobs(jobs),
+      });
+    }
+
+    const result = {
+      run_id,
+      workflow: latest.name,
+      latest_attempt: latestAttempt,
+      attempts,
+      url: latest.html_url,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_wait_for_run",
+  "Wait for a workflow run to complete, with progress notifications as jobs change state",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    timeout_seconds: z.number().min(1).optional().describe(
+      `Give up waiting after this long (default and max: ${config.neverhang.wait_timeout / 1000})`
+    ),
+  },
+  async ({ repo, run_id, timeout_seconds }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const waitMs = Math.min(
+      (timeout_seconds ?? Infinity) * 1000,
+      config.neverhang.wait_timeout
+    );
+
+    const { run, jobs, error } = await waitForRun(
+      repo,
+      run_id,
+      Date.now() + waitMs,
+      extra.signal,
+      progressNotifier(extra)
+    );
+    const completed = run.status === "completed";
+
+    const result: Record<string, unknown> = {
+      id: run.id,
+      workflow: run.name,
+      attempt: run.run_attempt,
+      status: run.status,
+      conclusion: run.conclusion,
+      completed,
+      timed_out: !completed,
+      error,
+      duration: run.run_started_at ? formatDuration(run.run_started_at, run.updated_at) : null,
+      url: run.html_url,
+      jobs: jobs.map(formatJob),
+    };
+
+    if (completed && run.conclusion !== "success") {
+      result.failed_jobs = summarizeFailedJobs(jobs);
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_get_run_logs",
+  "Fetch logs for a workflow run (downloads and extracts the log archive)",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    attempt: z.number().min(1).optional().describe("Run attempt number (default: latest)"),
+    job: z.string().optional().describe("Filter to jobs whose name contains this string"),
+    grep: z.string().optional().describe("Filter log lines containing this string"),
+    tail: z.number().min(1).optional().describe(`Return only last N lines per job (default: ${DEFAULT_LOG_TAIL})`),
+  },
+  async ({ repo, run_id, attempt, job, grep, tail = DEFAULT_LOG_TAIL }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    // A cached attempt is served without asking GitHub about the run at all
+    let runAttempt = attempt ?? 1;
+    let archive: Uint8Array | null = attempt !== undefined
+      ? logCache.get(runLogKey(parseRepo(repo).full, run_id, attempt))
+      : null;
+
+    if (!archive) {
+      const run = await getRunAttempt(repo, run_id, attempt, extra.signal);
+      runAttempt = run.run_attempt ?? 1;
+
+      try {
+        ({ archive } = await downloadRunLogs(
+          repo,
+          run_id,
+          runAttempt,
+          run.status === "completed",
+          extra.signal
+        ));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("410")) {
+          return {
+            content: [{
+              type: "text",
+              text: "Logs have expired or been deleted (GitHub retains logs for 90 days)",
+            }],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    }
+
+    let files = extractRunLogs(archive);
+    const availableJobs = [...new Set(files.map((f) => f.job))];
+
+    if (job) {
+      files = files.filter((f) => matchesJob(f.job, job));
+      if (files.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `No job matching "${job}" in run #${run_id} (attempt ${runAttempt}). ` +
+              `Available jobs: ${availableJobs.join(", ")}`,
+          }],
+          isError: true,
+        };
+      }
+    }
+
+    const jobs = [...new Set(files.map((f) => f.job))].map((jobName) => {
+      const jobFiles = files.filter((f) => f.job === jobName);
+      const total = filterJobLines(jobFiles, { grep }).length;
+      const lines = filterJobLines(jobFiles, { grep, tail });
+
+      // Group the remaining lines back under their steps
+      const steps: Array<{ number: number | null; name: string | null; lines: string[] }> = [];
+      for (const line of lines) {
+        let step = steps[steps.length - 1];
+        if (!step || step.number !== line.step_number) {
+          step = { number: line.step_number, name: line.step, lines: [] };
+          steps.push(step);
+        }
+        step.lines.push(line.text);
+      }
+
+      return {
+        job: jobName,
+        total_lines: total,
+        returned_lines: lines.length,
+        truncated: lines.length < total,
+        steps,
+      };
+    });
+
+    const result = {
+      run_id,
+      attempt: runAttempt,
+      filters: { job, grep, tail },
+      jobs,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_get_job_logs",
+  "Fetch logs for a single job, split into per-step sections",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    job_id: z.number().describe("Job ID (from gha_get_run)"),
+    step: z.union([z.string(), z.number()]).optional().describe("Step number, or filter to steps whose name contains this string"),
+    failed_steps_only: z.boolean().optional().describe("Only return sections for failed steps"),
+    strip_ansi: z.boolean().optional().describe("Strip ANSI color codes (default: true)"),
+    strip_timestamps: z.boolean().optional().describe("Strip leading ISO timestamps (default: false)"),
+    grep: z.string().optional().describe("Filter log lines containing this string"),
+    tail: z.number().min(1).optional().describe(`Return only last N lines per step (default: ${DEFAULT_LOG_TAIL})`),
+  },
+  async ({
+    repo,
+    job_id,
+    step,
+    failed_steps_only = false,
+    strip_ansi = true,
+    strip_timestamps = false,
+    grep,
+    tail = DEFAULT_LOG_TAIL,
+  }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const jobData = await getJob(repo, job_id, extra.signal);
+    const job = formatJob(jobData);
+
+    let text: string;
+    try {
+      text = await downloadJobLog(repo, jobData, extra.signal);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("410")) {
+        return {
+          content: [{
+            type: "text",
+            text: "Logs have expired or been deleted (GitHub retains logs for 90 days)",
+          }],
+          isError: true,
+        };
+      }
+      throw error;
+    }
+
+    const steps = jobData.steps || [];
+    const conclusions = new Map(steps.map((s) => [s.number, s.conclusion]));
+
+    let sections = splitJobLog(text, steps);
+
+    if (step !== undefined) {
+      sections = sections.filter((s) =>
+        typeof step === "number"
+          ? s.step_number === step
+          : !!s.step && s.step.toLowerCase().includes(step.toLowerCase())
+      );
+    }
+
+    if (failed_steps_only) {
+      sections = sections.filter(
+        (s) => s.step_number !== null && conclusions.get(s.step_number) === "failure"
+      );
+    }
+
+    const result = {
+      job_id,
+      job: job.name,
+      run_id: jobData.run_id,
+      attempt: jobData.run_attempt,
+      status: job.status,
+      conclusion: job.conclusion,
+      duration: job.duration,
+      filters: { step, failed_steps_only, grep, tail },
+      sections: sections.map((s) => {
+        let lines = s.lines.map((l) => cleanLogLine(l, { strip_ansi, strip_timestamps }));
+        if (grep) {
+          lines = lines.filter((l) => l.includes(grep));
+        }
+        const total = lines.length;
+        if (lines.length > tail) {
+          lines = lines.slice(-tail);
+        }
+        return {
+          step_number: s.step_number,
+          step: s.step,
+          conclusion: s.step_number !== null ? conclusions.get(s.step_number) ?? null : null,
+          total_lines: total,
+          truncated: lines.length < total,
+          lines,
+        };
+      }),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_search_logs",
+  "Search the logs of many runs for a regex, e.g. to find when an error first appeared",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    pattern: z.string().max(MAX_SEARCH_PATTERN_LENGTH).describe(
+      `Regular expression to search for (JavaScript syntax, at most ${MAX_SEARCH_PATTERN_LENGTH} characters)`
+    ),
+    ignore_case: z.boolean().optional().describe("Case-insensitive match (default: false)"),
+    workflow: z.string().optional().describe("Only search runs of this workflow file name"),
+    branch: z.string().optional().describe("Only search runs on this branch"),
+    since: z.string().optional().describe("Only runs created on or after this date (YYYY-MM-DD or ISO 8601)"),
+    until: z.string().optional().describe("Only runs created on or before this date (YYYY-MM-DD or ISO 8601)"),
+    max_runs: z.number().min(1).max(100).optional().describe(`Max runs to search (default: ${DEFAULT_SEARCH_RUNS})`),
+    max_bytes: z.number().min(1).optional().describe(
+      `Stop after downloading this many bytes of log archives (default: ${DEFAULT_SEARCH_BYTES})`
+    ),
+    context: z.number().min(0).max(20).optional().describe("Context lines around each match (default: 2)"),
+    max_matches: z.number().min(1).max(1000).optional().describe("Max matches returned (default: 100)"),
+  },
+  async ({
+    repo,
+    pattern,
+    ignore_case = false,
+    workflow,
+    branch,
+    since,
+    until,
+    max_runs = DEFAULT_SEARCH_RUNS,
+    max_bytes = DEFAULT_SEARCH_BYTES,
+    context = 2,
+    max_matches = 100,
+  }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, ignore_case ? "i" : "");
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
+
+    const params: Parameters<Octokit["rest"]["actions"]["listWorkflowRunsForRepo"]>[0] = {
+      owner,
+      repo: repoName,
+      status: "completed",
+      per_page: max_runs,
+    };
+    if (branch) params.branch = branch;
+    if (since || until) {
+      params.created = since && until ? `${since}..${until}` : since ? `>=${since}` : `<=${until}`;
+    }
+
+    let runs;
+    if (workflow) {
+      const response = await github.call(
+        { repo, family: "runs", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.listWorkflowRuns({
+          ...params,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+      runs = response.data.workflow_runs;
+    } else {
+      const response = await github.call(
+        { repo, family: "runs", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.listWorkflowRunsForRepo({ ...params, request: { signal } })
+      );
+      runs = response.data.workflow_runs;
+    }
+
+    type RunLogMatch = LogMatch & {
+      run_id: number;
+      run_created_at: string;
+      branch: string | null;
+      commit: string;
+    };
+
+    const matches: RunLogMatch[] = [];
+    const skipped: Array<{ run_id: number; reason: string }> = [];
+    let bytes = 0;
+    let searched = 0;
+    let stoppedBy: string | null = null;
+    // Matching time across all archives; downloads have their own timeouts
+    let matchingMs = 0;
+
+    // Newest first, as listed
+    for (const run of runs.slice(0, max_runs)) {
+      if (bytes >= max_bytes) {
+        stoppedBy = "max_bytes";
+        break;
+      }
+      if (matches.length >= max_matches) {
+        stoppedBy = "max_matches";
+        break;
+      }
+
+      let archive: Uint8Array;
+      try {
+        const download = await downloadRunLogs(repo, run.id, run.run_attempt ?? 1, true, extra.signal);
+        archive = download.archive;
+        if (!download.cached) {
+          // The size is only known once downloaded: the archive that crosses
+          // max_bytes counts as downloaded but isn't searched
+          bytes += archive.byteLength;
+          if (bytes > max_bytes) {
+            stoppedBy = "max_bytes";
+            skipped.push({ run_id: run.id, reason: `Log archive (${archive.byteLength} bytes) exceeds the remaining max_bytes` });
+            break;
+          }
+        }
+      } catch (error) {
+        skipped.push({ run_id: run.id, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      let search: Awaited<ReturnType<typeof searchRunLogs>>;
+      const matchingStarted = Date.now();
+      try {
+        search = await searchRunLogs(
+          { archive, source: regex.source, flags: regex.flags, context, limit: max_matches - matches.length },
+          matchingStarted + config.neverhang.log_timeout - matchingMs,
+          extra.signal
+        );
+      } catch (error) {
+        if (extra.signal.aborted) throw error;
+        skipped.push({ run_id: run.id, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      } finally {
+        matchingMs += Date.now() - matchingStarted;
+      }
+      searched++;
+      for (const match of search.matches) {
+        matches.push({
+          run_id: run.id,
+          run_created_at: run.created_at,
+          branch: run.head_branch,
+          commit: run.head_sha.substring(0, 7),
+          ...match,
+        });
+      }
+
+      if (search.timed_out) {
+        stoppedBy = "time_limit";
+        break;
+      }
+    }
+
+    const runsWithMatches = [...new Set(matches.map((m) => m.run_id))];
+    const oldest = matches.reduce<RunLogMatch | null>(
+      (min, m) => (!min || m.run_created_at < min.run_created_at ? m : min),
+      null
+    );
+
+    const result = {
+      pattern,
+      runs_searched: searched,
+      runs_with_matches: runsWithMatches.length,
+      bytes_downloaded: bytes,
+      stopped_by: stoppedBy,
+      earliest_match: oldest
+        ? { run_id: oldest.run_id, created_at: oldest.run_created_at, branch: oldest.branch }
+        : null,
+      branches_with_matches: [...new Set(matches.map((m) => m.branch))],
+      matches,
+      skipped_runs: skipped,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ============================================================================
+// TOOLS: ACTIONS (Write - Permission Gated)
+// ============================================================================
+
+tool(
+  "gha_trigger_workflow",
+  "Trigger a workflow_dispatch event",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.string().describe("Workflow file name (e.g., 'ci.yml')"),
+    ref: z.string().describe("Branch or tag to run on"),
+    inputs: DISPATCH_INPUTS_SCHEMA,
+    skip_validation: SKIP_VALIDATION_SCHEMA,
+    confirm_token: CONFIRM_TOKEN_SCHEMA,
   },
-});
+  async ({ repo, workflow, ref, inputs, skip_validation = false, confirm_token }, extra) => {
+    checkPermission(config, "trigger");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    // Catch wrong names and values here rather than as a 422 (or a silent default)
+    const schema = await getDispatchSchema(repo, workflow, ref, skip_validation, extra.signal);
+    checkPolicy(config, "trigger", { repo, workflow: schema.path, ref });
+    const validated = resolveDispatchInputs(schema.inputs, inputs);
+
+    const pending = await confirmWrite(
+      "gha_trigger_workflow",
+      repo,
+      { workflow, ref, inputs, skip_validation },
+      confirm_token,
+      async () => ({
+        ...await previewDispatch(repo, schema.workflow, ref, validated, extra.signal),
+        skip_validation,
+        warning: schema.warning,
+      })
+    );
+    if (pending) return pending;
+
+    await github.call(
+      { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.createWorkflowDispatch({
+        owner,
+        repo: repoName,
+        workflow_id: workflow,
+        ref,
+        inputs: validated.inputs,
+        request: { signal },
+      })
+    );
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          message: `Triggered workflow "${workflow}" on ${ref}`,
+          repo,
+          workflow,
+          ref,
+          inputs: validated.inputs,
+          defaults_applied: validated.defaults_applied,
+          warning: schema.warning,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+tool(
+  "gha_trigger_and_wait",
+  "Trigger a workflow_dispatch event, identify the run it created, and wait for it to complete",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.string().describe("Workflow file name (e.g., 'deploy.yml')"),
+    ref: z.string().describe("Branch or tag to run on"),
+    inputs: DISPATCH_INPUTS_SCHEMA,
+    correlation_input: z.string().optional().describe(
+      "Name of a workflow input to fill with a unique ID. The workflow's run-name must include it for exact matching"
+    ),
+    timeout_seconds: z.number().min(1).optional().describe(
+      `Give up waiting after this long (default and max: ${config.neverhang.wait_timeout / 1000})`
+    ),
+    skip_validation: SKIP_VALIDATION_SCHEMA,
+    confirm_token: CONFIRM_TOKEN_SCHEMA,
+  },
+  async ({ repo, workflow, ref, inputs, correlation_input, timeout_seconds, skip_validation = false, confirm_token }, extra) => {
+    checkPermission(config, "trigger");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+    const waitMs = Math.min(
+      (timeout_seconds ?? Infinity) * 1000,
+      config.neverhang.wait_timeout
+    );
+    const deadline = Date.now() + waitMs;
+    const branch = ref.replace(/^refs\/(heads|tags)\//, "");
+
+    const correlationId = correlation_input ? randomUUID() : undefined;
+    const schema = await getDispatchSchema(repo, workflow, ref, skip_validation, extra.signal);
+    checkPolicy(config, "trigger", { repo, workflow: schema.path, ref });
+    const validated = resolveDispatchInputs(
+      schema.inputs,
+      correlation_input ? { ...inputs, [correlation_input]: correlationId as string } : inputs
+    );
+    const dispatchInputs = validated.inputs;
+
+    const pending = await confirmWrite(
+      "gha_trigger_and_wait",
+      repo,
+      { workflow, ref, inputs, correlation_input, timeout_seconds, skip_validation },
+      confirm_token,
+      async () => ({
+        ...await previewDispatch(repo, schema.workflow, ref, validated, extra.signal),
+        skip_validation,
+        warning: schema.warning,
+      })
+    );
+    if (pending) return pending;
+
+    const listDispatchRuns = async () => {
+      const response = await github.call(
+        { repo, family: "runs", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.listWorkflowRuns({
+          owner,
+          repo: repoName,
+          workflow_id: workflow,
+          event: "workflow_dispatch",
+          branch,
+          per_page: 20,
+          request: { signal },
+        })
+      );
+      return response.data.workflow_runs;
+    };
+
+    // Snapshot existing runs so an older queued run can't be mistaken for ours
+    const before = new Set((await listDispatchRuns()).map((r) => r.id));
+    const actor = await getViewerLogin(repo, extra.signal);
+    const dispatchedAt = Date.now();
+
+    await github.call(
+      { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.createWorkflowDispatch({
+        owner,
+        repo: repoName,
+        workflow_id: workflow,
+        ref,
+        inputs: dispatchInputs,
+        request: { signal },
+      })
+    );
+
+    // The dispatch API returns no run ID, so look for the run it created
+    let found: { id: number; matched_by: string; other_candidates: number[] } | null = null;
+
+    while (!found && Date.now() + DISPATCH_POLL_INTERVAL_MS <= deadline) {
+      await sleep(DISPATCH_POLL_INTERVAL_MS, extra.signal);
+
+      const candidates = (await listDispatchRuns())
+        .filter((r) => !before.has(r.id))
+        .filter((r) => new Date(r.created_at).getTime() >= dispatchedAt - DISPATCH_SKEW_MS)
+        .filter((r) => !actor || (r.triggering_actor?.login ?? r.actor?.login) === actor)
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+      const correlated = correlationId
+        ? candidates.find((r) => r.display_title?.includes(correlationId) || r.name?.includes(correlationId))
+        : undefined;
+
+      if (correlated) {
+        found = { id: correlated.id, matched_by: "correlation_input", other_candidates: [] };
+      } else if (candidates.length > 0 && (!correlationId || Date.now() - dispatchedAt >= CORRELATION_GRACE_MS)) {
+        found = {
+          id: candidates[0].id,
+          matched_by: "workflow, ref, actor and creation time",
+          other_candidates: candidates.slice(1).map((r) => r.id),
+        };
+      }
+    }
+
+    if (!found) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            dispatched: true,
+            run_id: null,
+            message: correlationId
+              ? `Dispatched, but no run with correlation ID ${correlationId} appeared. Check that the workflow's run-name includes the "${correlation_input}" input.`
+              : "Dispatched, but the run it created could not be identified before the deadline",
+            repo,
+            workflow,
+            ref,
+            warning: schema.warning,
+          }, null, 2),
+        }],
+      };
+    }
+
+    const { run, jobs, error } = await waitForRun(
+      repo,
+      found.id,
+      deadline,
+      extra.signal,
+      progressNotifier(extra)
+    );
+    const completed = run.status === "completed";
+
+    const result: Record<string, unknown> = {
+      dispatched: true,
+      run_id: run.id,
+      matched_by: found.matched_by,
+      correlation_id: correlationId,
+      status: run.status,
+      conclusion: run.conclusion,
+      completed,
+      timed_out: !completed,
+      error,
+      duration: run.run_started_at ? formatDuration(run.run_started_at, run.updated_at) : null,
+      url: run.html_url,
+    };
+
+    if (schema.warning) {
+      result.warning = schema.warning;
+    }
+
+    if (correlationId && found.matched_by !== "correlation_input") {
+      result.correlation_warning = `No run-name contained correlation ID ${correlationId} within ` +
+        `${CORRELATION_GRACE_MS / 1000}s, so the run was matched without it. ` +
+        `Include the "${correlation_input}" input in the workflow's run-name for exact matching.`;
+    }
+
+    if (found.other_candidates.length > 0) {
+      result.ambiguous = true;
+      result.other_candidates = found.other_candidates;
+    }
+
+    if (completed && run.conclusion !== "success") {
+      result.failed_jobs = summarizeFailedJobs(jobs);
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_rerun_workflow",
+  "Re-run a workflow",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    failed_only: z.boolean().optional().describe("Only re-run failed jobs"),
+    confirm_token: CONFIRM_TOKEN_SCHEMA,
+  },
+  async ({ repo, run_id, failed_only = false, confirm_token }, extra) => {
+    checkPermission(config, "trigger");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    // A re-run becomes the next attempt of the same run
+    const before = await getRunAttempt(repo, run_id, undefined, extra.signal);
+    const previousAttempt = before.run_attempt ?? 1;
+    checkPolicy(config, "trigger", runTarget(repo, before));
+
+    const pending = await confirmWrite(
+      "gha_rerun_workflow",
+      repo,
+      { run_id, failed_only },
+      confirm_token,
+      async () => {
+        const jobs = await listAttemptJobs(repo, run_id, undefined, extra.signal);
+        const rerun = failed_only
+          ? jobs.filter((j) => j.conclusion === "failure" || j.conclusion === "cancelled")
+          : jobs;
+
+        return {
+          run: formatRun(before),
+          jobs_to_rerun: rerun.map((j) => ({ id: j.id, name: j.name, conclusion: j.conclusion })),
+          will: before.status !== "completed"
+            ? `Nothing: run #${run_id} is ${before.status}, only completed runs can be re-run`
+            : `Re-run ${failed_only ? `${rerun.length} failed job(s) (and their dependents)` : `all ${jobs.length} job(s)`} ` +
+              `of run #${run_id} as attempt ${previousAttempt + 1}`,
+        };
+      }
+    );
+    if (pending) return pending;
+
+    if (failed_only) {
+      await github.call(
+        { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.reRunWorkflowFailedJobs({
+          owner,
+          repo: repoName,
+          run_id,
+          request: { signal },
+        })
+      );
+    } else {
+      await github.call(
+        { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.reRunWorkflow({
+          owner,
+          repo: repoName,
+          run_id,
+          request: { signal },
+        })
+      );
+    }
+
+    // The stored snapshot is the finished attempt until the new one is delivered
+    webhooks.forgetRun(parseRepo(repo).full, run_id);
+
+    // Report the attempt GitHub actually started: a concurrent re-run may have
+    // taken the next number. The re-run already happened, so a failed lookup
+    // only leaves the attempt unknown.
+    let after: WorkflowRun | null = null;
+    try {
+      after = await getRunAttempt(repo, run_id, undefined, extra.signal);
+    } catch (error) {
+      console.error(`[github-actions-mcp] Re-fetching run #${run_id} after re-run failed:`, error);
+    }
+    const attempt = after?.run_attempt ?? null;
+    const started = attempt !== null && attempt > previousAttempt;
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          message: started
+            ? `Re-running workflow run #${run_id} as attempt ${attempt}` + (failed_only ? " (failed jobs only)" : "")
+            : `Re-run of workflow run #${run_id} requested, but ` +
+              (after ? `the run still reports attempt ${attempt ?? "unknown"}` : "the run could not be re-fetched") +
+              `; check gha_list_run_attempts shortly`,
+          run_id,
+          attempt,
+          status: after?.status ?? null,
+          previous_attempt: previousAttempt,
+          previous_conclusion: before.conclusion,
+          failed_only,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+tool(
+  "gha_cancel_run",
+  "Cancel a running workflow",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    confirm_token: CONFIRM_TOKEN_SCHEMA,
+  },
+  async ({ repo, run_id, confirm_token }, extra) => {
+    checkPermission(config, "cancel");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    // Only workflow- or ref-scoped policies need to know which run this is
+    const current = policyNeedsDetails(config, "cancel", repo)
+      ? await getRunAttempt(repo, run_id, undefined, extra.signal)
+      : null;
+    checkPolicy(config, "cancel", current ? runTarget(repo, current) : { repo });
+
+    const pending = await confirmWrite(
+      "gha_cancel_run",
+      repo,
+      { run_id },
+      confirm_token,
+      async () => {
+        const run = current ?? await getRunAttempt(repo, run_id, undefined, extra.signal);
+        const jobs = await listAttemptJobs(repo, run_id, undefined, extra.signal);
+        const unfinished = jobs.filter((j) => j.status !== "completed");
+
+        return {
+          run: formatRun(run),
+          jobs_to_cancel: unfinished.map((j) => ({ id: j.id, name: j.name, status: j.status })),
+          will: run.status === "completed"
+            ? `Nothing: run #${run_id} already completed (${run.conclusion})`
+            : `Cancel run #${run_id}, stopping ${unfinished.length} unfinished job(s)`,
+        };
+      }
+    );
+    if (pending) return pending;
+
+    await github.call(
+      { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.cancelWorkflowRun({
+        owner,
+        repo: repoName,
+        run_id,
+        request: { signal },
+      })
+    );
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          message: `Cancelled workflow run #${run_id}`,
+          run_id,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+tool(
+  "gha_set_workflow_state",
+  "Enable or disable a workflow",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    workflow: z.string().describe("Workflow file name or ID"),
+    enabled: z.boolean().describe("Enable (true) or disable (false)"),
+    confirm_token: CONFIRM_TOKEN_SCHEMA,
+  },
+  async ({ repo, workflow, enabled, confirm_token }, extra) => {
+    checkPermission(config, "admin");
+    checkRepoAccess(config, repo);
+
+    const { owner, repo: repoName } = parseRepo(repo);
+
+    const getWorkflow = async () => {
+      const response = await github.call(
+        { repo, family: "workflows", signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.getWorkflow({
+          owner,
+          repo: repoName,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+      return response.data;
+    };
+
+    // Workflow-scoped policies match on the file path, which an ID doesn't give
+    const current = policyNeedsDetails(config, "admin", repo) ? await getWorkflow() : null;
+    checkPolicy(config, "admin", { repo, workflow: current?.path });
+
+    const pending = await confirmWrite(
+      "gha_set_workflow_state",
+      repo,
+      { workflow, enabled },
+      confirm_token,
+      async () => {
+        const w = current ?? await getWorkflow();
+        const target = enabled ? "active" : "disabled_manually";
+
+        return {
+          workflow: { id: w.id, name: w.name, path: w.path, state: w.state },
+          will: w.state === target
+            ? `Nothing: ${w.path} is already ${w.state}`
+            : `Change ${w.path} from ${w.state} to ${target}`,
+        };
+      }
+    );
+    if (pending) return pending;
+
+    if (enabled) {
+      await github.call(
+        { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.enableWorkflow({
+          owner,
+          repo: repoName,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+    } else {
+      await github.call(
+        { repo, family: "writes", essential: true, idempotent: false, signal: extra.signal },
+        (signal, octokit) => octokit.rest.actions.disableWorkflow({
+          owner,
+          repo: repoName,
+          workflow_id: workflow,
+          request: { signal },
+        })
+      );
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          success: true,
+          message: `Workflow "${workflow}" ${enabled ? "enabled" : "disabled"}`,
+          workflow,
+          enabled,
+        }, null, 2),
+      }],
+    };
+  }
+);
+
+// ============================================================================
+// TOOLS: ANALYSIS
+// ============================================================================
+
+tool(
+  "gha_diagnose_failure",
+  "Analyze a failed workflow run: rule-based classification, with optional AI diagnosis",
+  {
+    repo: z.string().describe("Repository in owner/repo format"),
+    run_id: z.number().describe("Workflow run ID"),
+    attempt: z.number().min(1).optional().describe("Run attempt number (default: latest)"),
+    use_ai: z.boolean().optional().describe("Force (true) or skip (false) Haiku diagnosis. Default: only when no rule matches"),
+  },
+  async ({ repo, run_id, attempt, use_ai }, extra) => {
+    checkPermission(config, "read");
+    checkRepoAccess(config, repo);
+
+    const run = await getRunAttempt(repo, run_id, attempt, extra.signal);
+
+    // Get jobs to find failures
+    const jobs = await listAttemptJobs(repo, run_id, attempt, extra.signal);
+    const failedJobs = jobs.filter((j) => j.conclusion === "failure");
+    const failedSteps: Array<{ job: string; step: string; conclusion: string }> = [];
+
+    for (const job of failedJobs) {
+      const failed = job.steps?.filter((s) => s.conclusion === "failure") || [];
+      for (const step of failed) {
+        failedSteps.push({
+          job: job.name,
+          step: step.name,
+          conclusion: step.conclusion || "failure",
+        });
+      }
+    }
 
-const server = new McpServer({
-  name: "github-actions-mcp",
-  version: "0.1.0",
-});
+    const result: Record<string, unknown> = {
+      run_id,
+      attempt: run.run_attempt,
+      workflow: run.name,
+      conclusion: run.conclusion,
+      branch: run.head_branch,
+      commit: run.head_sha.substring(0, 7),
+      commit_message: run.head_commit?.message?.split("\n")[0] || "",
+      failed_jobs: failedJobs.map((j) => j.name),
+      failed_steps: failedSteps,
+      url: run.html_url,
+    };
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
+    const { steps, excerpts, errors } = await fetchFailureLogs(repo, failedJobs, extra.signal);
+    const classification = classifyFailure(steps);
+
+    // Keep the earliest excerpts that fit the prompt budget; the first error is usually the cause
+    const maxLogLines = config.fallback.max_log_lines || 200;
+    const promptExcerpts: FailureExcerpt[] = [];
+    let budget = maxLogLines;
+    for (const excerpt of excerpts) {
+      const cost = excerpt.lines.length + 2; // header + separator
+      if (cost > budget && promptExcerpts.length > 0) break;
+      promptExcerpts.push(excerpt);
+      budget -= cost;
+    }
+    const logs = promptExcerpts.length > 0 ? formatExcerpts(promptExcerpts) : undefined;
 
-function parseRepo(repo: string): { owner: string; repo: string } {
-  const [owner, repoName] = repo.split("/");
-  if (!owner || !repoName) {
-    throw new Error(`Invalid repo format: "${repo}". Expected "owner/repo"`);
-  }
-  return { owner, repo: repoName };
-}
+    result.classification = classification;
+    result.category = classification[0]?.category ?? null;
+    result.error_context = excerpts;
+    if (errors.length > 0) {
+      result.log_errors = errors;
+    }
 
-function formatDuration(startedAt: string, completedAt?: string | null): string {
-  const start = new Date(startedAt).getTime();
-  const end = completedAt ? new Date(completedAt).getTime() : Date.now();
-  const seconds = Math.floor((end - start) / 1000);
+    // Rules come first; Haiku only runs when they find nothing, or on request
+    const wantAi = use_ai ?? classification.length === 0;
 
-  if (seconds < 60) return `${seconds}s`;
-  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
-  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
-}
+    if (failedJobs.length === 0) {
+      result.suggestion = "No failed jobs to diagnose";
+    } else if (!wantAi) {
+      result.ai_diagnosis = null;
+      result.ai_note = use_ai === false
+        ? "AI diagnosis skipped (use_ai=false)"
+        : "AI diagnosis skipped: rule-based classification matched. Pass use_ai=true to run it anyway.";
+    } else if (isHaikuEnabled(config)) {
+      console.error("[github-actions-mcp] Running Haiku diagnosis...");
 
-function statusIcon(conclusion: string | null): string {
-  switch (conclusion) {
-    case "success": return "✓";
-    case "failure": return "✗";
-    case "cancelled": return "⊘";
-    case "skipped": return "⊖";
-    case null: return "●"; // in progress
-    default: return "?";
-  }
-}
+      const diagnosis = await diagnoseWithHaiku(config, {
+        workflow: run.name || "unknown",
+        branch: run.head_branch || "unknown",
+        commit: run.head_sha.substring(0, 7),
+        commit_message: run.head_commit?.message?.split("\n")[0] || "",
+        failed_jobs: failedJobs.map((j) => j.name),
+        failed_steps: failedSteps.map((s) => ({ job: s.job, step: s.step })),
+        logs,
+      });
 
-// ============================================================================
-// TOOLS: WORKFLOWS (Read)
-// ============================================================================
+      if (diagnosis) {
+        result.ai_diagnosis = diagnosis;
+        result.ai_model = config.fallback.model || "claude-haiku-4-5";
+        result.ai_based_on = promptExcerpts.length > 0
+          ? promptExcerpts.map((e) => ({
+            job: e.job,
+            step: e.step,
+            lines: `${e.start_line}-${e.end_line}`,
+          }))
+          : "step names only (no logs available)";
+      } else {
+        result.ai_diagnosis = null;
+        result.ai_note = "Haiku diagnosis failed or unavailable";
+      }
+    } else {
+      result.ai_diagnosis = null;
+      result.ai_note = "AI diagnosis disabled. Set fallback.enabled=true and provide ANTHROPIC_API_KEY to enable.";
+    }
 
-server.tool(
-  "gha_list_workflows",
-  "List workflows in a repository",
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+tool(
+  "gha_compare_runs",
+  "Compare two workflow runs: commits between them, changed job/step conclusions, durations, and a diff of failing step logs",
   {
     repo: z.string().describe("Repository in owner/repo format"),
-    state: z.enum(["active", "disabled", "all"]).optional().describe("Filter by state"),
+    run_id: z.number().describe("Run to inspect (usually the failing one)"),
+    base_run_id: z.number().optional().describe(
+      "Run to compare against (default: last successful run of the same workflow on the same branch)"
+    ),
+    include_log_diff: z.boolean().optional().describe("Diff failing step logs against the base run (default: true)"),
   },
-  async ({ repo, state = "all" }) => {
+  async ({ repo, run_id, base_run_id, include_log_diff = true }, extra) => {
     checkPermission(config, "read");
     checkRepoAccess(config, repo);
 
     const { owner, repo: repoName } = parseRepo(repo);
 
-    const response = await withTimeout(
-      octokit.rest.actions.listRepoWorkflows({ owner, repo: repoName }),
-      config.neverhang.api_timeout
-    );
+    const getRun = async (id: number) => (await github.call(
+      { repo, family: "runs", signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.getWorkflowRun({
+        owner,
+        repo: repoName,
+        run_id: id,
+        request: { signal },
+      })
+    )).data;
 
-    let workflows = response.data.workflows;
-    if (state !== "all") {
-      workflows = workflows.filter((w) => w.state === state);
+    const listJobs = (id: number) => listRunJobs(repo, id, "latest", extra.signal);
+
+    const run = await getRun(run_id);
+    const base = base_run_id !== undefined
+      ? await getRun(base_run_id)
+      : await findLastSuccessfulRun(repo, run, extra.signal);
+
+    if (!base) {
+      return {
+        content: [{
+          type: "text",
+          text: `No earlier successful run of "${run.name}" on ${run.head_branch} to compare run #${run_id} against`,
+        }],
+        isError: true,
+      };
     }
 
-    const result = {
-      total: workflows.length,
-      workflows: workflows.map((w) => ({
-        id: w.id,
-        name: w.name,
-        path: w.path,
-        state: w.state,
-        badge_url: w.badge_url,
-      })),
+    const summarize = (r: WorkflowRun) => ({
+      id: r.id,
+      conclusion: r.conclusion,
+      commit: r.head_sha.substring(0, 7),
+      created_at: r.created_at,
+      url: r.html_url,
+    });
+
+    const result: Record<string, unknown> = {
+      run: summarize(run),
+      base: summarize(base),
     };
 
+    // Commit range
+    if (base.head_sha === run.head_sha) {
+      result.commits = { total_commits: 0, note: "Both runs are on the same commit" };
+    } else {
+      try {
+        const comparePage = async (page: number) => (await github.call(
+          { repo, family: "commits", signal: extra.signal },
+          (signal, octokit) => octokit.rest.repos.compareCommitsWithBasehead({
+            owner,
+            repo: repoName,
+            basehead: `${base.head_sha}...${run.head_sha}`,
+            per_page: MAX_COMPARE_COMMITS,
+            page,
+            request: { signal },
+          })
+        )).data;
+
+        // Commits come oldest first; for a long range keep the newest ones,
+        // the likeliest culprits, from the last page (and the one before it)
+        const compare = await comparePage(1);
+        let commits = compare.commits;
+        const lastPage = Math.ceil(compare.total_commits / MAX_COMPARE_COMMITS);
+        if (lastPage > 1) {
+          commits = (await comparePage(lastPage)).commits;
+          if (commits.length < MAX_COMPARE_COMMITS) {
+            commits = [...(await comparePage(lastPage - 1)).commits, ...commits];
+          }
+        }
+        commits = commits.slice(-MAX_COMPARE_COMMITS);
+
+        result.commits = {
+          status: compare.status,
+          total_commits: compare.total_commits,
+          truncated: compare.total_commits > commits.length,
+          files_changed: compare.files?.length ?? null,
+          commits: commits.map((c) => ({
+            sha: c.sha.substring(0, 7),
+            message: c.commit.message.split("\n")[0],
+            author: c.author?.login ?? c.commit.author?.name ?? null,
+          })),
+          url: compare.html_url,
+        };
+      } catch (error) {
+        result.commits = { error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    // Jobs and steps
+    const jobs = await listJobs(run.id);
+    const baseJobs = await listJobs(base.id);
+    const baseByName = new Map(baseJobs.map((j) => [j.name, j]));
+    const jobNames = new Set(jobs.map((j) => j.name));
+
+    const jobChanges = jobs.map((j) => {
+      const b = baseByName.get(j.name);
+      const duration = j.started_at && j.completed_at
+        ? elapsedSeconds(j.started_at, j.completed_at)
+        : null;
+      const baseDuration = b?.started_at && b.completed_at
+        ? elapsedSeconds(b.started_at, b.completed_at)
+        : null;
+      const baseSteps = new Map((b?.steps || []).map((s) => [s.name, s]));
+
+      return {
+        name: j.name,
+        conclusion: j.conclusion,
+        base_conclusion: b ? b.conclusion : "(not in base run)",
+        conclusion_changed: !b || b.conclusion !== j.conclusion,
+        duration_s: duration,
+        base_duration_s: baseDuration,
+        duration_delta_s: duration !== null && baseDuration !== null ? duration - baseDuration : null,
+        changed_steps: (j.steps || [])
+          .filter((s) => baseSteps.get(s.name)?.conclusion !== s.conclusion)
+          .map((s) => ({
+            number: s.number,
+            name: s.name,
+            conclusion: s.conclusion,
+            base_conclusion: baseSteps.get(s.name)?.conclusion ?? "(not in base run)",
+          })),
+      };
+    });
+
+    result.changed_jobs = jobChanges.filter((j) => j.conclusion_changed || j.changed_steps.length > 0);
+    result.durations = jobChanges.map((j) => ({
+      name: j.name,
+      duration_s: j.duration_s,
+      base_duration_s: j.base_duration_s,
+      delta_s: j.duration_delta_s,
+    }));
+    result.jobs_only_in_base = baseJobs.filter((j) => !jobNames.has(j.name)).map((j) => j.name);
+
+    // Failing step logs against the same step in the base run
+    if (include_log_diff) {
+      const logDiffs: Array<Record<string, unknown>> = [];
+      const failedJobs = jobs.filter((j) => j.conclusion === "failure").slice(0, MAX_DIAGNOSE_JOBS);
+
+      for (const job of failedJobs) {
+        const baseJob = baseByName.get(job.name);
+        const failedSteps = (job.steps || []).filter((s) => s.conclusion === "failure");
+        if (failedSteps.length === 0) continue;
+
+        if (!baseJob) {
+          logDiffs.push({ job: job.name, note: "Job not in base run" });
+          continue;
+        }
+
+        try {
+          const currentLog = await downloadJobLog(repo, job, extra.signal);
+          const previousLog = await downloadJobLog(repo, baseJob, extra.signal);
+          const current = splitJobLog(currentLog, job.steps || []);
+          const previous = splitJobLog(previousLog, baseJob.steps || []);
+          const clean = (lines: string[]) =>
+            lines.map((l) => cleanLogLine(l, { strip_ansi: true, strip_timestamps: true }));
+
+          for (const step of failedSteps) {
+            const baseStep = baseJob.steps?.find((s) => s.name === step.name);
+            const currentLines = current.filter((s) => s.step_number === step.number).flatMap((s) => s.lines);
+            const previousLines = baseStep
+              ? previous.filter((s) => s.step_number === baseStep.number).flatMap((s) => s.lines)
+              : [];
+
+            logDiffs.push({
+              job: job.name,
+              step: step.name,
+              base_step_found: !!baseStep,
+              ...diffLogLines(clean(currentLines), clean(previousLines)),
+            });
+          }
+        } catch (error) {
+          logDiffs.push({ job: job.name, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      result.log_diff = logDiffs;
+    }
+
     return {
       content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
     };
   }
 );
 
-server.tool(
-  "gha_get_workflow",
-  "Get workflow definition and metadata",
+tool(
+  "gha_detect_flaky",
+  "Find flaky jobs and steps in a workflow's recent runs: ones that pass and fail on the same commit, or pass on a re-run",
   {
     repo: z.string().describe("Repository in owner/repo format"),
-    workflow: z.union([z.string(), z.number()]).describe("Workflow file name or ID"),
+    workflow: z.string().describe("Workflow file name or ID"),
+    branch: z.string().optional().describe("Only scan runs on this branch"),
+    runs: z.number().min(1).max(100).optional().describe("How many recent completed runs to scan (default: 30)"),
+    include_signatures: z.boolean().optional().describe(
+      "Download logs of failing attempts to find the most common error (default: true)"
+    ),
   },
-  async ({ repo, workflow }) => {
+  async ({ repo, workflow, branch, runs = 30, include_signatures = true }, extra) => {
     checkPermission(config, "read");
     checkRepoAccess(config, repo);
 
     const { owner, repo: repoName } = parseRepo(repo);
 
-    const response = await withTimeout(
-      octokit.rest.actions.getWorkflow({
+    const runsResponse = await github.call(
+      { repo, family: "runs", signal: extra.signal },
+      (signal, octokit) => octokit.rest.actions.listWorkflowRuns({
         owner,
         repo: repoName,
         workflow_id: workflow,
-      }),
-      config.neverhang.api_timeout
+        branch,
+        status: "completed",
+        per_page: runs,
+        request: { signal },
+      })
     );
 
-    const w = response.data;
+    interface Execution {
+      job: WorkflowJob;
+      run_id: number;
+      attempt: number;
+      sha: string;
+    }
+
+    // Every attempt of every job; filter=all includes jobs from earlier attempts
+    const byJob = new Map<string, Execution[]>();
+    for (const run of runsResponse.data.workflow_runs) {
+      for (const job of await listRunJobs(repo, run.id, "all", extra.signal)) {
+        if (job.conclusion !== "success" && job.conclusion !== "failure") continue;
+        const executions = byJob.get(job.name) ?? [];
+        executions.push({ job, run_id: run.id, attempt: job.run_attempt ?? 1, sha: run.head_sha });
+        byJob.set(job.name, executions);
+      }
+    }
+
+    const flaky = [...byJob.entries()].flatMap(([name, executions]) => {
+      const bySha = new Map<string, Execution[]>();
+      for (const e of executions) {
+        bySha.set(e.sha, [...(bySha.get(e.sha) ?? []), e]);
+      }
+
+      const flakyFailures: Array<Execution & { reason: string }> = [];
+      const flakySteps = new Map<string, number>();
+
+      for (const group of bySha.values()) {
+        const passes = group.filter((e) => e.job.conclusion === "success");
+        const failures = group.filter((e) => e.job.conclusion === "failure");
+        if (passes.length === 0 || failures.length === 0) continue;
+
+        for (const failure of failures) {
+          const rerunPassed = passes.some(
+            (p) => p.run_id === failure.run_id && p.attempt > failure.attempt
+          );
+          flakyFailures.push({
+            ...failure,
+            reason: rerunPassed ? "passed_on_rerun" : "flipped_on_same_commit",
+          });
+
+          // Steps that failed here but passed in a passing execution of the same commit
+          for (const step of failure.job.steps || []) {
+            if (step.conclusion !== "failure") continue;
+            const passedElsewhere = passes.some((p) =>
+              p.job.steps?.some((s) => s.name === step.name && s.conclusion === "success")
+            );
+            if (passedElsewhere) {
+              flakySteps.set(step.name, (flakySteps.get(step.name) ?? 0) + 1);
+            }
+          }
+        }
+      }
+
+      if (flakyFailures.length === 0) return [];
+
+      return [{
+        job: name,
+        flakiness_score: Math.round((flakyFailures.length / executions.length) * 100) / 100,
+        flaky_failures: flakyFailures.length,
+        executions: executions.length,
+        failing_attempts: flakyFailures.map((f) => ({
+          run_id: f.run_id,
+          attempt: f.attempt,
+          job_id: f.job.id,
+          commit: f.sha.substring(0, 7),
+          reason: f.reason,
+        })),
+        flaky_steps: [...flakySteps.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .map(([step, failures]) => ({ step, failures })),
+        samples: flakyFailures.slice(0, MAX_FLAKY_LOG_SAMPLES).map((f) => f.job),
+      }];
+    }).sort((a, b) => b.flakiness_score - a.flakiness_score);
+
+    const results = [];
+    for (const [index, entry] of flaky.entries()) {
+      const { samples, ...report } = entry;
+      const item: Record<string, unknown> = report;
+
+      if (include_signatures && index < MAX_FLAKY_JOBS) {
+        const counts = new Map<string, { example: string; category: string | null; count: number }>();
+
+        for (const job of samples) {
+          try {
+            const log = await downloadJobLog(repo, job, extra.signal);
+            const sections = splitJobLog(log, job.steps || []);
+            const failedNumbers = new Set(
+              (job.steps || []).filter((s) => s.conclusion === "failure").map((s) => s.number)
+            );
+            const lines = sections
+              .filter((s) => s.step_number !== null && failedNumbers.has(s.step_number))
+              .flatMap((s) => s.lines)
+              .map((l) => cleanLogLine(l, { strip_ansi: true, strip_timestamps: true }));
+
+            const signature = errorSignature({ job: job.name, step: null, lines });
+            if (!signature) continue;
+
+            const existing = counts.get(signature.signature);
+            counts.set(signature.signature, {
+              example: signature.example,
+              category: signature.category,
+              count: (existing?.count ?? 0) + 1,
+            });
+          } catch {
+            // Expired or unavailable logs just leave the sample out
+          }
+        }
+
+        const [top] = [...counts.values()].sort((a, b) => b.count - a.count);
+        item.error_signature = top
+          ? { ...top, samples: samples.length }
+          : null;
+      }
+
+      results.push(item);
+    }
+
     const result = {
-      id: w.id,
-      name: w.name,
-      path: w.path,
-      state: w.state,
-      created_at: w.created_at,
-      updated_at: w.updated_at,
-      url: w.html_url,
+      workflow,
+      branch: branch ?? null,
+      runs_scanned: runsResponse.data.workflow_runs.length,
+      flaky_jobs: results,
+      summary: results.length > 0
+        ? `${results.length} flaky job(s). Failures in these may not be caused by code changes.`
+        : "No flaky jobs found in the scanned runs",
     };
 
     return {
@@ -151,85 +2777,126 @@ server.tool(
 );
 
 // ============================================================================
-// TOOLS: RUNS (Read)
+// TOOLS: DIAGNOSTICS
 // ============================================================================
 
-server.tool(
-  "gha_list_runs",
-  "List workflow runs with filtering",
+tool(
+  "gha_rate_limit_status",
+  "Report the server's own health: GitHub quota, circuit breakers, timeouts and bypass mode",
   {
-    repo: z.string().describe("Repository in owner/repo format"),
-    workflow: z.string().optional().describe("Filter by workflow file name"),
-    branch: z.string().optional().describe("Filter by branch"),
-    status: z.enum(["queued", "in_progress", "completed"]).optional(),
-    conclusion: z.enum(["success", "failure", "cancelled", "skipped"]).optional(),
-    limit: z.number().min(1).max(100).optional().describe("Max results (default: 10)"),
+    refresh: z.boolean().optional().describe("Fetch current quota from GitHub first; free, does not count against it (default: true)"),
+    host: z.string().optional().describe(`Host name or alias from config (default: ${DEFAULT_HOST})`),
+    repo: z.string().optional().describe("With GitHub App auth, report the quota of the installation serving this repository (overrides host)"),
   },
-  async ({ repo, workflow, branch, status, conclusion, limit = 10 }) => {
+  async ({ refresh = true, host: hostName = DEFAULT_HOST, repo }, extra) => {
     checkPermission(config, "read");
-    checkRepoAccess(config, repo);
+    if (repo) checkRepoAccess(config, repo);
+
+    const host = repo ? hosts.hostOf(repo) : resolveHost(config, hostName);
+    const scope = repo ?? hostScope(host);
+    let refreshError: string | null = null;
+    let tokenStatus: number | null = null;
+
+    if (refresh) {
+      try {
+        const response = await github.call(
+          { repo: scope, family: "meta", essential: true, signal: extra.signal },
+          (signal, octokit) => octokit.rest.rateLimit.get({ request: { signal } })
+        );
+        github.setRateLimits(response.data.resources, hosts.quotaKey(scope));
+      } catch (error) {
+        refreshError = error instanceof Error ? error.message : String(error);
+        tokenStatus = (error as { status?: number }).status ?? null;
+      }
+    }
 
-    const { owner, repo: repoName } = parseRepo(repo);
+    // Asked after the refresh: a host-level call may only now have settled
+    // on an installation
+    const quota = hosts.quotaKey(scope);
+    const limits = github.getRateLimits(quota);
+    const rateLimits = Object.fromEntries(
+      ["core", "search", "graphql"].map((bucket) => {
+        const info = limits[bucket];
+        return [bucket, info ? {
+          remaining: info.remaining,
+          limit: info.limit,
+          reset_at: info.reset_at.toISOString(),
+          resets_in_s: Math.max(0, Math.ceil((info.reset_at.getTime() - Date.now()) / 1000)),
+        } : null];
+      })
+    );
 
-    const params: Parameters<typeof octokit.rest.actions.listWorkflowRunsForRepo>[0] = {
-      owner,
-      repo: repoName,
-      per_page: limit,
+    const breakers = github.getBreakerStatus();
+
+    const result = {
+      host,
+      // Each app installation has its own quota; null with a token
+      installation: hosts.installationAccount(scope),
+      rate_limits: rateLimits,
+      throttle: {
+        state: github.getThrottleState(quota),
+        ...config.rate_limit,
+      },
+      circuit_breakers: {
+        open: breakers.filter((b) => b.open),
+        degraded: breakers.filter((b) => !b.open),
+      },
+      neverhang: config.neverhang,
+      log_cache: logCache.stats(),
+      webhook: config.webhook.enabled ? webhooks.stats() : { enabled: false },
+      bypass_permissions: !!config.bypass_permissions,
+      auth: {
+        ...hosts.status()[host],
+        rejected: tokenStatus === 401,
+      },
+      other_hosts: hosts.hosts().filter((h) => h !== host),
+      refresh_error: refreshError,
     };
 
-    if (branch) params.branch = branch;
-    if (status) params.status = status;
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
 
-    let runs;
-    if (workflow) {
-      const response = await withTimeout(
-        octokit.rest.actions.listWorkflowRuns({
-          ...params,
-          workflow_id: workflow,
-        }),
-        config.neverhang.api_timeout
-      );
-      runs = response.data.workflow_runs;
-    } else {
-      const response = await withTimeout(
-        octokit.rest.actions.listWorkflowRunsForRepo(params),
-        config.neverhang.api_timeout
-      );
-      runs = response.data.workflow_runs;
+tool(
+  "gha_list_webhook_events",
+  "List workflow_run and workflow_job events recently received by the webhook receiver",
+  {
+    repo: z.string().optional().describe("Repository in owner/repo format (default: all)"),
+    run_id: z.number().optional().describe("Only events for this run"),
+    event: z.enum(["workflow_run", "workflow_job"]).optional(),
+    limit: z.number().min(1).optional().describe("Max events, newest first (default: 50)"),
+  },
+  async ({ repo, run_id, event, limit = 50 }) => {
+    checkPermission(config, "read");
+    if (repo) {
+      checkRepoAccess(config, repo);
     }
 
-    // Filter by conclusion client-side (API doesn't support it directly)
-    if (conclusion) {
-      runs = runs.filter((r) => r.conclusion === conclusion);
+    if (!config.webhook.enabled) {
+      return {
+        content: [{
+          type: "text",
+          text: "Webhook receiver is disabled. Set webhook.enabled=true in config to receive events.",
+        }],
+        isError: true,
+      };
     }
 
-    const formattedRuns = runs.slice(0, limit).map((r) => ({
-      id: r.id,
-      workflow: r.name,
-      status: r.status,
-      conclusion: r.conclusion,
-      branch: r.head_branch,
-      commit: r.head_sha.substring(0, 7),
-      commit_message: r.head_commit?.message?.split("\n")[0] || "",
-      triggered_by: r.event,
-      started_at: r.run_started_at,
-      duration: r.run_started_at
-        ? formatDuration(r.run_started_at, r.updated_at)
-        : null,
-      status_icon: statusIcon(r.conclusion),
-    }));
-
-    // Summary stats
-    const stats = {
-      success: runs.filter((r) => r.conclusion === "success").length,
-      failure: runs.filter((r) => r.conclusion === "failure").length,
-      cancelled: runs.filter((r) => r.conclusion === "cancelled").length,
-      in_progress: runs.filter((r) => r.status === "in_progress").length,
-    };
+    // Deliveries can come from any repo the hook is installed on
+    const events = webhooks.recent({ repo: repo && parseRepo(repo).full, run_id, event }).filter((e) => {
+      try {
+        checkRepoAccess(config, e.repo);
+        return true;
+      } catch {
+        return false;
+      }
+    });
 
     const result = {
-      runs: formattedRuns,
-      summary: `Last ${runs.length} runs: ${stats.success} passed, ${stats.failure} failed, ${stats.cancelled} cancelled, ${stats.in_progress} running`,
+      receiver: webhooks.stats(),
+      events: events.slice(0, limit),
     };
 
     return {
@@ -238,64 +2905,79 @@ server.tool(
   }
 );
 
-server.tool(
-  "gha_get_run",
-  "Get detailed run information including jobs",
+tool(
+  "gha_cache_purge",
+  "Remove downloaded logs from the local cache, for one repository or all of them",
   {
-    repo: z.string().describe("Repository in owner/repo format"),
-    run_id: z.number().describe("Workflow run ID"),
-    include_jobs: z.boolean().optional().describe("Include job details (default: true)"),
+    repo: z.string().optional().describe("Repository in owner/repo format (default: all repositories)"),
   },
-  async ({ repo, run_id, include_jobs = true }) => {
-    checkPermission(config, "read");
-    checkRepoAccess(config, repo);
+  async ({ repo }) => {
+    checkPermission(config, "admin");
+    if (repo) {
+      checkRepoAccess(config, repo);
+      checkPolicy(config, "admin", { repo });
+    } else {
+      checkGlobalPermission(config, "admin");
+    }
 
-    const { owner, repo: repoName } = parseRepo(repo);
+    let removed: { entries: number; bytes: number };
+    try {
+      removed = logCache.purge(repo ? `${parseRepo(repo).full.toLowerCase()}/` : undefined);
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Failed to purge the log cache: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+        isError: true,
+      };
+    }
 
-    const runResponse = await withTimeout(
-      octokit.rest.actions.getWorkflowRun({ owner, repo: repoName, run_id }),
-      config.neverhang.api_timeout
-    );
+    const result = {
+      purged: repo ?? "all",
+      removed_entries: removed.entries,
+      freed_bytes: removed.bytes,
+      cache: logCache.stats(),
+    };
 
-    const r = runResponse.data;
-    const result: Record<string, unknown> = {
-      id: r.id,
-      workflow: r.name,
-      status: r.status,
-      conclusion: r.conclusion,
-      branch: r.head_branch,
-      commit: r.head_sha.substring(0, 7),
-      commit_message: r.head_commit?.message || "",
-      triggered_by: r.event,
-      actor: r.actor?.login,
-      started_at: r.run_started_at,
-      duration: r.run_started_at
-        ? formatDuration(r.run_started_at, r.updated_at)
-        : null,
-      url: r.html_url,
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
     };
+  }
+);
 
-    if (include_jobs) {
-      const jobsResponse = await withTimeout(
-        octokit.rest.actions.listJobsForWorkflowRun({ owner, repo: repoName, run_id }),
-        config.neverhang.api_timeout
-      );
+tool(
+  "gha_audit_tail",
+  "Read recent audit log entries: which tools were called, on which repos, with what arguments, whether permission checks allowed them, and the result",
+  {
+    limit: z.number().min(1).max(500).optional().describe("Entries to return (default: 50)"),
+    tool: z.string().optional().describe("Only calls of this tool, e.g. gha_cancel_run"),
+    repo: z.string().optional().describe("Only calls on this repository"),
+    decision: z.enum(["allowed", "denied", "none"]).optional().describe("Only calls with this permission decision"),
+    outcome: z.enum(["ok", "error", "denied"]).optional().describe("Only calls with this outcome"),
+  },
+  async ({ limit = 50, tool: toolName, repo, decision, outcome }) => {
+    checkPermission(config, "read");
+    if (repo) checkRepoAccess(config, repo);
+
+    // Calls on repos the caller can't read stay hidden, as they are in every other tool
+    const { entries, scanned_all } = audit.tail({
+      limit,
+      tool: toolName,
+      repo: repo ? auditRepo(repo) : undefined,
+      decision,
+      outcome,
+      visible: (entry) => entry.repo === null || canAccessRepo(config, entry.repo),
+    });
 
-      result.jobs = jobsResponse.data.jobs.map((j) => ({
-        id: j.id,
-        name: j.name,
-        status: j.status,
-        conclusion: j.conclusion,
-        started_at: j.started_at,
-        duration: j.started_at ? formatDuration(j.started_at, j.completed_at) : null,
-        steps: j.steps?.map((s) => ({
-          name: s.name,
-          status: s.status,
-          conclusion: s.conclusion,
-          number: s.number,
-        })),
-      }));
-    }
+    const result = {
+      enabled: audit.enabled,
+      path: audit.path,
+      returned: entries.length,
+      // Only the end of very large logs is searched
+      scanned_all,
+      entries,
+    };
 
     return {
       content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -303,319 +2985,436 @@ server.tool(
   }
 );
 
-server.tool(
-  "gha_get_run_logs",
-  "Fetch logs for a workflow run",
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+/**
+ * Prompt text plus a note on what the server already looked up
+ *
+ * Context lookups are best-effort: on failure the prompt still works, the
+ * model just starts from the first tool call.
+ */
+async function promptContext<T>(
+  lookup: () => Promise<T>,
+  describe: (value: T) => string
+): Promise<string> {
+  try {
+    return describe(await lookup());
+  } catch (error) {
+    return `(Context lookup failed: ${error instanceof Error ? error.message : String(error)}. Start with the first step.)`;
+  }
+}
+
+function userPrompt(text: string) {
+  return {
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
+
+server.prompt(
+  "triage_failure",
+  "Triage the latest failed run on a branch: diagnose, read the failing step, compare with the last green run",
   {
     repo: z.string().describe("Repository in owner/repo format"),
-    run_id: z.number().describe("Workflow run ID"),
-    job: z.string().optional().describe("Filter to specific job name"),
-    grep: z.string().optional().describe("Filter log lines containing this string"),
-    tail: z.number().optional().describe("Return only last N lines"),
+    branch: z.string().optional().describe("Branch (default: the repository's default branch)"),
   },
-  async ({ repo, run_id, job, grep, tail }) => {
+  async ({ repo, branch }, extra) => {
     checkPermission(config, "read");
     checkRepoAccess(config, repo);
 
     const { owner, repo: repoName } = parseRepo(repo);
 
-    try {
-      // Get the log download URL
-      const response = await withTimeout(
-        octokit.rest.actions.downloadWorkflowRunLogs({ owner, repo: repoName, run_id }),
-        config.neverhang.log_timeout
-      );
+    const context = await promptContext(
+      async () => {
+        const response = await github.call(
+          { repo, family: "runs", signal: extra.signal },
+          (signal, octokit) => octokit.rest.actions.listWorkflowRunsForRepo({
+            owner,
+            repo: repoName,
+            status: "failure",
+            ...(branch ? { branch } : {}),
+            per_page: 1,
+            request: { signal },
+          })
+        );
+        return response.data.workflow_runs[0];
+      },
+      (run) => run
+        ? `The latest failed run${branch ? ` on \`${branch}\`` : ""} is #${run.id} ` +
+          `("${run.name}", attempt ${run.run_attempt ?? 1}, commit ${run.head_sha.substring(0, 7)}: ` +
+          `"${run.head_commit?.message?.split("\n")[0] || ""}", ${run.html_url}).`
+        : `No failed runs found${branch ? ` on \`${branch}\`` : ""}. Confirm with gha_list_runs and stop if CI is green.`
+    );
 
-      // The response is a redirect URL - we need to fetch the actual logs
-      // For now, return the URL and metadata
-      // Full log fetching would require additional zip handling
+    return userPrompt(`Triage the latest CI failure in ${repo}${branch ? ` on branch \`${branch}\`` : ""}.
 
-      const result = {
-        run_id,
-        log_url: response.url,
-        note: "Log download URL (expires in 1 minute). For full log content, download and extract the zip.",
-        filters_requested: { job, grep, tail },
-      };
+${context}
 
-      return {
-        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-      };
-    } catch (error) {
-      if (error instanceof Error && error.message.includes("410")) {
-        return {
-          content: [{
-            type: "text",
-            text: "Logs have expired or been deleted (GitHub retains logs for 90 days)",
-            isError: true,
-          }],
-        };
-      }
-      throw error;
-    }
+Steps:
+1. gha_diagnose_failure on the run. Note the category and the failed jobs and steps.
+2. gha_get_job_logs with failed_steps_only=true for the first failed job. Find the first real error, not the final "exit code" line.
+3. gha_compare_runs on the run (base defaults to the last successful run on the branch). List the commits in between and any step that went from success to failure.
+4. If the category is network_flake, timeout or oom_or_runner_lost, run gha_detect_flaky for that workflow to check whether this failure is known to be flaky.
+
+Report:
+- Cause: one sentence, quoting the error line
+- Culprit: the most likely commit from step 3, or "infrastructure" if flaky
+- Next action: a code fix (file and change), or a re-run if flaky. Do not re-run anything yourself.`);
   }
 );
 
-// ============================================================================
-// TOOLS: ACTIONS (Write - Permission Gated)
-// ============================================================================
-
-server.tool(
-  "gha_trigger_workflow",
-  "Trigger a workflow_dispatch event",
+server.prompt(
+  "rerun_plan",
+  "Decide which failed jobs of a run are worth re-running and which need a fix first",
   {
     repo: z.string().describe("Repository in owner/repo format"),
-    workflow: z.string().describe("Workflow file name (e.g., 'ci.yml')"),
-    ref: z.string().describe("Branch or tag to run on"),
-    inputs: z.record(z.string()).optional().describe("Workflow inputs"),
+    run_id: z.string().describe("Workflow run ID"),
   },
-  async ({ repo, workflow, ref, inputs }) => {
-    checkPermission(config, "trigger");
+  async ({ repo, run_id }, extra) => {
+    checkPermission(config, "read");
     checkRepoAccess(config, repo);
 
-    const { owner, repo: repoName } = parseRepo(repo);
+    const runId = Number(run_id);
+    if (!Number.isInteger(runId) || runId <= 0) {
+      throw new Error(`Invalid run_id: "${run_id}"`);
+    }
 
-    await withTimeout(
-      octokit.rest.actions.createWorkflowDispatch({
-        owner,
-        repo: repoName,
-        workflow_id: workflow,
-        ref,
-        inputs,
-      }),
-      config.neverhang.api_timeout
+    let fetched: WorkflowRun | null = null;
+    const context = await promptContext(
+      async () => {
+        const run = await getRunAttempt(repo, runId, undefined, extra.signal);
+        fetched = run;
+        const jobs = await listAttemptJobs(repo, runId, undefined, extra.signal);
+        return { run, failed: summarizeFailedJobs(jobs) };
+      },
+      ({ run, failed }) =>
+        `Run #${runId} ("${run.name}") is on attempt ${run.run_attempt ?? 1}, ` +
+        `status ${run.status}, conclusion ${run.conclusion ?? "none"}. Failed jobs: ` +
+        (failed.length > 0
+          ? failed.map((j) => `${j.name} (${j.failed_steps.map((st) => st.name).join(", ") || "no failed step"})`).join("; ")
+          : "none") + "."
     );
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          success: true,
-          message: `Triggered workflow "${workflow}" on ${ref}`,
-          repo,
-          workflow,
-          ref,
-          inputs: inputs || {},
-        }, null, 2),
-      }],
-    };
-  }
-);
+    let rerunDenial: string | null = null;
+    try {
+      checkPermission(config, "trigger");
+      checkPolicy(config, "trigger", fetched ? runTarget(repo, fetched) : { repo });
+    } catch (error) {
+      rerunDenial = error instanceof Error ? error.message : String(error);
+    }
 
-server.tool(
-  "gha_rerun_workflow",
-  "Re-run a workflow",
-  {
-    repo: z.string().describe("Repository in owner/repo format"),
-    run_id: z.number().describe("Workflow run ID"),
-    failed_only: z.boolean().optional().describe("Only re-run failed jobs"),
-  },
-  async ({ repo, run_id, failed_only = false }) => {
-    checkPermission(config, "trigger");
-    checkRepoAccess(config, repo);
+    return userPrompt(`Prepare a re-run plan for run #${runId} in ${repo}.
 
-    const { owner, repo: repoName } = parseRepo(repo);
+${context}
 
-    if (failed_only) {
-      await withTimeout(
-        octokit.rest.actions.reRunWorkflowFailedJobs({ owner, repo: repoName, run_id }),
-        config.neverhang.api_timeout
-      );
-    } else {
-      await withTimeout(
-        octokit.rest.actions.reRunWorkflow({ owner, repo: repoName, run_id }),
-        config.neverhang.api_timeout
-      );
-    }
+Steps:
+1. gha_list_run_attempts to see whether earlier attempts already failed the same way.
+2. gha_diagnose_failure on the run to get each failure's category.
+3. gha_detect_flaky for the run's workflow, to see which of the failed jobs and steps are known to be flaky.
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          success: true,
-          message: `Re-running workflow run #${run_id}${failed_only ? " (failed jobs only)" : ""}`,
-          run_id,
-          failed_only,
-        }, null, 2),
-      }],
-    };
+For each failed job, decide:
+- Re-run: category network_flake, timeout or oom_or_runner_lost, or a known flaky step, and fewer than 3 attempts failed the same way
+- Fix first: compile_error, dependency_resolution, test_assertion or permissions_secret that also failed in earlier attempts
+
+Output a table (job, category, flaky?, decision, reason), then the exact call to make, e.g. gha_rerun_workflow with failed_only=true.
+${rerunDenial === null
+    ? "Wait for my confirmation before calling gha_rerun_workflow."
+    : `This server won't re-run it (${rerunDenial}): hand the plan to someone who can re-run.`}`);
   }
 );
 
-server.tool(
-  "gha_cancel_run",
-  "Cancel a running workflow",
+server.prompt(
+  "ci_health",
+  "Summarize a repository's CI health over the last days: pass rates, slowest and flakiest workflows, recurring errors",
   {
     repo: z.string().describe("Repository in owner/repo format"),
-    run_id: z.number().describe("Workflow run ID"),
+    days: z.string().optional().describe("How many days back to look (default: 7)"),
   },
-  async ({ repo, run_id }) => {
-    checkPermission(config, "cancel");
+  async ({ repo, days = "7" }, extra) => {
+    checkPermission(config, "read");
     checkRepoAccess(config, repo);
 
+    const period = Number(days);
+    if (!Number.isInteger(period) || period <= 0) {
+      throw new Error(`Invalid days: "${days}"`);
+    }
+    const since = new Date(Date.now() - period * 86400000).toISOString().substring(0, 10);
+
     const { owner, repo: repoName } = parseRepo(repo);
 
-    await withTimeout(
-      octokit.rest.actions.cancelWorkflowRun({ owner, repo: repoName, run_id }),
-      config.neverhang.api_timeout
+    const context = await promptContext(
+      async () => {
+        const response = await github.call(
+          { repo, family: "workflows", signal: extra.signal },
+          (signal, octokit) => octokit.rest.actions.listRepoWorkflows({ owner, repo: repoName, per_page: 100, request: { signal } })
+        );
+        return response.data.workflows.filter((w) => w.state === "active");
+      },
+      (workflows) => workflows.length > 0
+        ? `Active workflows: ${workflows.map((w) => `${w.name} (${w.path.split("/").pop()})`).join(", ")}.`
+        : "The repository has no active workflows; say so and stop."
     );
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          success: true,
-          message: `Cancelled workflow run #${run_id}`,
-          run_id,
-        }, null, 2),
-      }],
-    };
-  }
-);
-
-server.tool(
-  "gha_set_workflow_state",
-  "Enable or disable a workflow",
-  {
-    repo: z.string().describe("Repository in owner/repo format"),
-    workflow: z.string().describe("Workflow file name or ID"),
-    enabled: z.boolean().describe("Enable (true) or disable (false)"),
-  },
-  async ({ repo, workflow, enabled }) => {
-    checkPermission(config, "admin");
-    checkRepoAccess(config, repo);
+    return userPrompt(`Summarize CI health for ${repo} since ${since} (last ${period} days).
 
-    const { owner, repo: repoName } = parseRepo(repo);
+${context}
 
-    if (enabled) {
-      await withTimeout(
-        octokit.rest.actions.enableWorkflow({ owner, repo: repoName, workflow_id: workflow }),
-        config.neverhang.api_timeout
-      );
-    } else {
-      await withTimeout(
-        octokit.rest.actions.disableWorkflow({ owner, repo: repoName, workflow_id: workflow }),
-        config.neverhang.api_timeout
-      );
-    }
+Steps:
+1. For each active workflow, gha_list_runs with workflow=<file> and limit=100. Keep runs started since ${since}. Count success, failure and cancelled runs, and note the median duration.
+2. gha_detect_flaky for each workflow with failures.
+3. gha_search_logs with pattern "##\\[error\\]" and since=${since} to find recurring error lines.
 
-    return {
-      content: [{
-        type: "text",
-        text: JSON.stringify({
-          success: true,
-          message: `Workflow "${workflow}" ${enabled ? "enabled" : "disabled"}`,
-          workflow,
-          enabled,
-        }, null, 2),
-      }],
-    };
+Report:
+- A table per workflow: runs, pass rate, median duration, flaky jobs
+- The 3 most frequent error signatures with run counts and the branches they hit
+- Trend: better or worse than the period before, if the runs show it
+- One recommendation. Keep it short, most of the readers only look at the table.`);
   }
 );
 
 // ============================================================================
-// TOOLS: ANALYSIS
+// RESOURCES
 // ============================================================================
 
-server.tool(
-  "gha_diagnose_failure",
-  "Analyze a failed workflow run (with optional AI diagnosis)",
-  {
-    repo: z.string().describe("Repository in owner/repo format"),
-    run_id: z.number().describe("Workflow run ID"),
-  },
-  async ({ repo, run_id }) => {
-    checkPermission(config, "read");
-    checkRepoAccess(config, repo);
+// Any resource under a run can be subscribed to; it changes with the run.
+// The host segment is optional, as in the templates.
+const RUN_URI_PATTERN = /^gha:\/\/(?:([^/]+)\/)?([^/]+)\/([^/]+)\/runs\/(\d+)(?:\/|$)/;
 
-    const { owner, repo: repoName } = parseRepo(repo);
+const subscriptions = new Map<string, AbortController>();
 
-    // Get run details
-    const runResponse = await withTimeout(
-      octokit.rest.actions.getWorkflowRun({ owner, repo: repoName, run_id }),
-      config.neverhang.api_timeout
-    );
+type UriVariables = Record<string, string | string[]>;
 
-    const run = runResponse.data;
+/**
+ * Repository and numeric IDs from a resource URI's template variables
+ */
+function resourceTarget(uri: URL, variables: UriVariables, ids: string[]) {
+  const value = (name: string) => {
+    const v = variables[name];
+    return decodeURIComponent(Array.isArray(v) ? v[0] : v);
+  };
+
+  const numbers: Record<string, number> = {};
+  for (const id of ids) {
+    numbers[id] = Number(value(id));
+    if (!Number.isInteger(numbers[id]) || numbers[id] <= 0) {
+      throw new Error(`Invalid ${id} in ${uri.href}`);
+    }
+  }
 
-    // Get jobs to find failures
-    const jobsResponse = await withTimeout(
-      octokit.rest.actions.listJobsForWorkflowRun({ owner, repo: repoName, run_id }),
-      config.neverhang.api_timeout
-    );
+  const repo = uriRepo(variables.host === undefined ? null : value("host"), value("owner"), value("repo"));
+  checkPermission(config, "read");
+  checkRepoAccess(config, repo);
 
-    const failedJobs = jobsResponse.data.jobs.filter((j) => j.conclusion === "failure");
-    const failedSteps: Array<{ job: string; step: string; conclusion: string }> = [];
+  return { repo, value, numbers };
+}
 
-    for (const job of failedJobs) {
-      const failed = job.steps?.filter((s) => s.conclusion === "failure") || [];
-      for (const step of failed) {
-        failedSteps.push({
-          job: job.name,
-          step: step.name,
-          conclusion: step.conclusion || "failure",
-        });
-      }
+/**
+ * Canonical repo for a resource URI's host (null for github.com), owner and repo
+ */
+function uriRepo(host: string | null, owner: string, repo: string): string {
+  return parseRepoRef(config, host === null ? `${owner}/${repo}` : `${host}/${owner}/${repo}`).full;
+}
+
+/**
+ * Register a resource under both URI forms: gha://{owner}/{repo}/... for
+ * github.com and gha://{host}/{owner}/{repo}/... for any configured host
+ */
+function repoResource(
+  name: string,
+  path: string,
+  metadata: ResourceMetadata,
+  read: ReadResourceTemplateCallback
+): void {
+  server.resource(name, new ResourceTemplate(`gha://{owner}/{repo}/${path}`, { list: undefined }), metadata, read);
+  server.resource(
+    `${name}-on-host`,
+    new ResourceTemplate(`gha://{host}/{owner}/{repo}/${path}`, { list: undefined }),
+    metadata,
+    read
+  );
+}
+
+/**
+ * Send resources/updated for a subscribed URI whenever its run changes
+ *
+ * Watches until the client unsubscribes. While the run is in progress this
+ * is the same loop as gha_wait_for_run, so webhook deliveries replace
+ * polling when the receiver runs; once it has completed, a slow check (or
+ * a delivery) catches a re-run and watching resumes.
+ */
+async function watchRun(uri: string, repo: string, run_id: number, signal: AbortSignal): Promise<void> {
+  let primed = false; // The first poll only establishes the starting state
+  const notify = async () => {
+    if (primed) {
+      await server.server.sendResourceUpdated({ uri });
     }
+    primed = true;
+  };
 
-    const result: Record<string, unknown> = {
-      run_id,
-      workflow: run.name,
-      conclusion: run.conclusion,
-      branch: run.head_branch,
-      commit: run.head_sha.substring(0, 7),
-      commit_message: run.head_commit?.message?.split("\n")[0] || "",
-      failed_jobs: failedJobs.map((j) => j.name),
-      failed_steps: failedSteps,
-      url: run.html_url,
+  try {
+    for (;;) {
+      const { run } = await waitForRun(repo, run_id, Infinity, signal, notify);
+      await waitForRerun(repo, run, signal);
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error(`[github-actions-mcp] Stopped watching ${uri}:`, error);
+    }
+  } finally {
+    if (subscriptions.get(uri)?.signal === signal) {
+      subscriptions.delete(uri);
+    }
+  }
+}
+
+/**
+ * Wait until a completed run is queued again or gets a new attempt
+ */
+async function waitForRerun(repo: string, run: WorkflowRun, signal: AbortSignal): Promise<void> {
+  for (;;) {
+    if (webhooks.listening) {
+      await webhooks.waitForRun(parseRepo(repo).full, run.id, COMPLETED_RUN_POLL_MS, signal);
+    } else {
+      await sleep(COMPLETED_RUN_POLL_MS, signal);
+    }
+
+    try {
+      const current = await getRunAttempt(repo, run.id, undefined, signal);
+      if (current.status !== "completed" || current.run_attempt !== run.run_attempt) return;
+    } catch (error) {
+      if (signal.aborted || !isTransient(error)) throw error;
+      console.error(`[github-actions-mcp] Checking run #${run.id} for a re-run failed:`, error);
+    }
+  }
+}
+
+repoResource(
+  "run",
+  "runs/{run_id}",
+  { description: "A workflow run (latest attempt) with its jobs", mimeType: "application/json" },
+  async (uri, variables, extra) => {
+    const { repo, numbers } = resourceTarget(uri, variables, ["run_id"]);
+
+    const run = await getRunAttempt(repo, numbers.run_id, undefined, extra.signal);
+    const jobs = await listAttemptJobs(repo, numbers.run_id, undefined, extra.signal);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify({ ...formatRun(run), jobs: jobs.map(formatJob) }, null, 2),
+      }],
     };
+  }
+);
 
-    // If Haiku fallback is enabled, get AI diagnosis
-    if (isHaikuEnabled(config) && failedJobs.length > 0) {
-      console.error("[github-actions-mcp] Running Haiku diagnosis...");
+repoResource(
+  "job-log",
+  "runs/{run_id}/jobs/{job_id}/log",
+  { description: "A job's full log, ANSI codes stripped", mimeType: "text/plain" },
+  async (uri, variables, extra) => {
+    const { repo, numbers } = resourceTarget(uri, variables, ["run_id", "job_id"]);
 
-      const diagnosis = await diagnoseWithHaiku(config, {
-        workflow: run.name || "unknown",
-        branch: run.head_branch || "unknown",
-        commit: run.head_sha.substring(0, 7),
-        commit_message: run.head_commit?.message?.split("\n")[0] || "",
-        failed_jobs: failedJobs.map((j) => j.name),
-        failed_steps: failedSteps.map((s) => ({ job: s.job, step: s.step })),
-      });
+    const job = await getJob(repo, numbers.job_id, extra.signal);
+    if (job.run_id !== numbers.run_id) {
+      throw new Error(`Job ${numbers.job_id} belongs to run #${job.run_id}, not #${numbers.run_id}`);
+    }
 
-      if (diagnosis) {
-        result.ai_diagnosis = diagnosis;
-        result.ai_model = config.fallback.model || "claude-haiku-4-5";
-      } else {
-        result.ai_diagnosis = null;
-        result.ai_note = "Haiku diagnosis failed or unavailable";
-      }
-    } else if (!isHaikuEnabled(config)) {
-      result.ai_diagnosis = null;
-      result.ai_note = "AI diagnosis disabled. Set fallback.enabled=true and provide ANTHROPIC_API_KEY to enable.";
-    } else {
-      result.suggestion = "No failed jobs to diagnose";
+    const text = await downloadJobLog(repo, job, extra.signal);
+
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/plain",
+        text: text
+          .split(/\r?\n/)
+          .map((l) => cleanLogLine(l, { strip_ansi: true }))
+          .join("\n"),
+      }],
+    };
+  }
+);
+
+repoResource(
+  "workflow",
+  "workflows/{file}",
+  { description: "A workflow's YAML definition from the default branch", mimeType: "text/yaml" },
+  async (uri, variables, extra) => {
+    const { repo, value } = resourceTarget(uri, variables, []);
+
+    const { workflow, text } = await fetchWorkflowYaml(repo, value("file"), undefined, extra.signal);
+    if (text === null) {
+      throw new Error(`${workflow.path} not found in ${repo}`);
     }
 
     return {
-      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/yaml",
+        text,
+      }],
     };
   }
 );
 
+server.server.registerCapabilities({ resources: { subscribe: true } });
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const match = uri.match(RUN_URI_PATTERN);
+  if (!match) {
+    throw new Error(
+      `Only run resources (gha://[host/]owner/repo/runs/{run_id}/...) support subscriptions: ${uri}`
+    );
+  }
+
+  const repo = uriRepo(
+    match[1] === undefined ? null : decodeURIComponent(match[1]),
+    decodeURIComponent(match[2]),
+    decodeURIComponent(match[3])
+  );
+  checkPermission(config, "read");
+  checkRepoAccess(config, repo);
+
+  if (!subscriptions.has(uri)) {
+    const controller = new AbortController();
+    subscriptions.set(uri, controller);
+    void watchRun(uri, repo, Number(match[4]), controller.signal);
+  }
+
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  subscriptions.get(uri)?.abort();
+  subscriptions.delete(uri);
+  return {};
+});
+
 // ============================================================================
 // MAIN
 // ============================================================================
 
 async function main() {
-  const token = process.env[config.auth.token_env];
-  if (!token) {
-    console.error(`[github-actions-mcp] ERROR: ${config.auth.token_env} not set`);
+  // Each host needs its own credentials; run as long as one host has them
+  const missing = hosts.missingCredentials();
+  for (const problem of missing) {
+    console.error(`[github-actions-mcp] WARNING: ${problem}`);
+  }
+  if (missing.length === hosts.hosts().length) {
+    console.error("[github-actions-mcp] ERROR: no GitHub host has credentials");
     process.exit(1);
   }
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("[github-actions-mcp] Running on stdio");
+
+  if (config.webhook.enabled) {
+    startWebhookReceiver(config.webhook, webhooks);
+  }
 }
 
 main().catch((error) => {
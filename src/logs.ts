@@ -0,0 +1,455 @@
+/**
+ * Run log archive handling
+ *
+ * GitHub serves run logs as a zip archive. Each job gets a folder with one
+ * file per step ("<job>/<n>_<step>.txt"), plus a combined "<n>_<job>.txt"
+ * at the top level. We extract in memory and map files back to job/step.
+ */
+
+import { Worker } from "worker_threads";
+import { unzipSync, strFromU8 } from "fflate";
+import { cancellationError } from "./utils.js";
+
+export interface LogFile {
+  job: string;
+  step_number: number | null;
+  step: string | null;
+  path: string;
+  content: string;
+}
+
+export interface LogLine {
+  step_number: number | null;
+  step: string | null;
+  line_number: number;
+  text: string;
+}
+
+export interface LogFilter {
+  grep?: string;
+  tail?: number;
+}
+
+/**
+ * Extract a run log archive into per-step log files
+ *
+ * Per-step files are preferred. The combined top-level file is only used
+ * for jobs that have no step folder (e.g. older or truncated archives).
+ */
+export function extractRunLogs(archive: ArrayBuffer | Uint8Array): LogFile[] {
+  const bytes = archive instanceof Uint8Array ? archive : new Uint8Array(archive);
+  const entries = unzipSync(bytes);
+
+  const stepFiles: LogFile[] = [];
+  const jobFiles: LogFile[] = [];
+
+  for (const [path, data] of Object.entries(entries)) {
+    if (path.endsWith("/")) continue; // directory entry
+
+    const parts = path.split("/");
+    const { number, name } = parseNumberedName(parts[parts.length - 1]);
+    const content = strFromU8(data);
+
+    if (parts.length === 1) {
+      // Top-level combined job log: "<n>_<job>.txt"
+      jobFiles.push({ job: name, step_number: null, step: null, path, content });
+    } else {
+      stepFiles.push({
+        job: parts.slice(0, -1).join("/"),
+        step_number: number,
+        step: number === null ? null : name,
+        path,
+        content,
+      });
+    }
+  }
+
+  const jobsWithSteps = new Set(stepFiles.map((f) => f.job));
+  const files = [
+    ...stepFiles,
+    ...jobFiles.filter((f) => !jobsWithSteps.has(f.job)),
+  ];
+
+  return files.sort(
+    (a, b) =>
+      a.job.localeCompare(b.job) ||
+      (a.step_number ?? Infinity) - (b.step_number ?? Infinity)
+  );
+}
+
+/**
+ * Check if a job name matches a user-supplied filter (case-insensitive substring)
+ */
+export function matchesJob(job: string, filter: string): boolean {
+  return job.toLowerCase().includes(filter.toLowerCase());
+}
+
+/**
+ * Flatten a job's log files into lines, then apply grep and tail
+ *
+ * Tail is applied after grep so "last N matching lines" works as expected.
+ */
+export function filterJobLines(files: LogFile[], filter: LogFilter): LogLine[] {
+  let lines: LogLine[] = [];
+
+  for (const file of files) {
+    const fileLines = file.content.split(/\r?\n/);
+    if (fileLines[fileLines.length - 1] === "") fileLines.pop();
+
+    fileLines.forEach((text, i) => {
+      lines.push({
+        step_number: file.step_number,
+        step: file.step,
+        line_number: i + 1,
+        text,
+      });
+    });
+  }
+
+  if (filter.grep) {
+    const needle = filter.grep;
+    lines = lines.filter((l) => l.text.includes(needle));
+  }
+
+  if (filter.tail !== undefined && lines.length > filter.tail) {
+    lines = lines.slice(-filter.tail);
+  }
+
+  return lines;
+}
+
+/**
+ * Split "<n>_<name>.txt" into its step number and name
+ */
+function parseNumberedName(fileName: string): { number: number | null; name: string } {
+  const base = fileName.replace(/\.txt$/, "");
+  const match = base.match(/^(\d+)_(.*)$/);
+  if (!match) {
+    return { number: null, name: base };
+  }
+  return { number: parseInt(match[1], 10), name: match[2] };
+}
+
+// ============================================================================
+// PER-JOB LOGS
+// ============================================================================
+
+export interface StepInfo {
+  number: number;
+  name: string;
+  started_at?: string | null;
+}
+
+export interface LogSection {
+  step_number: number | null;
+  step: string | null;
+  lines: string[];
+}
+
+export interface CleanOptions {
+  strip_ansi?: boolean;
+  strip_timestamps?: boolean;
+}
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?/;
+const GROUP_PATTERN = /^##\[group\](.*)$/;
+
+/**
+ * Split a single job's plain-text log into per-step sections
+ *
+ * The runner opens each step with a "##[group]" header, but steps can emit
+ * their own groups too. Each group is matched to a step by header name first,
+ * then by line timestamp against the step start time; consecutive groups that
+ * land on the same step are merged.
+ */
+export function splitJobLog(text: string, steps: StepInfo[]): LogSection[] {
+  const ordered = [...steps].sort((a, b) => a.number - b.number);
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  // Raw split on every group header
+  const raw: Array<{ title: string | null; lines: string[] }> = [];
+  for (const line of lines) {
+    const body = line.replace(TIMESTAMP_PATTERN, "");
+    const group = body.match(GROUP_PATTERN);
+    if (group || raw.length === 0) {
+      raw.push({ title: group ? group[1].trim() : null, lines: [] });
+    }
+    raw[raw.length - 1].lines.push(line);
+  }
+
+  const sections: LogSection[] = [];
+  let cursor = 0; // steps run in order, never match backwards
+
+  for (const chunk of raw) {
+    const index = matchStep(chunk, ordered, cursor);
+    const step = index === null ? null : ordered[index];
+    if (index !== null) cursor = index;
+
+    const last = sections[sections.length - 1];
+    if (last && last.step_number === (step?.number ?? null)) {
+      last.lines.push(...chunk.lines);
+    } else {
+      sections.push({
+        step_number: step?.number ?? null,
+        step: step?.name ?? null,
+        lines: [...chunk.lines],
+      });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Strip ANSI escape codes and/or leading ISO timestamps from a log line
+ */
+export function cleanLogLine(line: string, options: CleanOptions): string {
+  let result = line;
+  if (options.strip_timestamps) {
+    result = result.replace(TIMESTAMP_PATTERN, "");
+  }
+  if (options.strip_ansi) {
+    result = result.replace(ANSI_PATTERN, "");
+  }
+  return result;
+}
+
+function matchStep(
+  chunk: { title: string | null; lines: string[] },
+  steps: StepInfo[],
+  cursor: number
+): number | null {
+  if (steps.length === 0) return null;
+
+  // Unnamed steps are titled after their header ("Run actions/checkout@v4")
+  if (chunk.title) {
+    for (let i = cursor; i < steps.length; i++) {
+      if (steps[i].name === chunk.title) return i;
+    }
+  }
+
+  const firstStamp = chunk.lines
+    .map((l) => l.match(TIMESTAMP_PATTERN)?.[1])
+    .find((s): s is string => !!s);
+
+  if (firstStamp) {
+    // Step times are second-precision, so compare at that resolution
+    const at = Math.floor(new Date(firstStamp).getTime() / 1000);
+    let match: number | null = null;
+    for (let i = cursor; i < steps.length; i++) {
+      const started = steps[i].started_at;
+      if (!started) continue;
+      if (Math.floor(new Date(started).getTime() / 1000) <= at) {
+        match = i;
+      } else {
+        break;
+      }
+    }
+    if (match !== null) return match;
+  }
+
+  return cursor;
+}
+
+// ============================================================================
+// ERROR CONTEXT
+// ============================================================================
+
+export interface LogWindow {
+  start_line: number;
+  end_line: number;
+  lines: string[];
+}
+
+const ERROR_MARKER = "##[error]";
+
+/**
+ * Pick the windows of a step's log around "##[error]" annotations
+ *
+ * Overlapping windows are merged. When a step failed without an error
+ * annotation, the last `before` lines are used instead.
+ */
+export function extractErrorWindows(
+  lines: string[],
+  before: number = 30,
+  after: number = 5
+): LogWindow[] {
+  const windows: LogWindow[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.includes(ERROR_MARKER)) return;
+
+    const start = Math.max(0, i - before);
+    const end = Math.min(lines.length - 1, i + after);
+    const last = windows[windows.length - 1];
+
+    if (last && start <= last.end_line) {
+      last.end_line = Math.max(last.end_line, end);
+    } else {
+      windows.push({ start_line: start, end_line: end, lines: [] });
+    }
+  });
+
+  if (windows.length === 0 && lines.length > 0) {
+    windows.push({
+      start_line: Math.max(0, lines.length - before),
+      end_line: lines.length - 1,
+      lines: [],
+    });
+  }
+
+  // Fill lines and switch to 1-based line numbers for output
+  return windows.map((w) => ({
+    start_line: w.start_line + 1,
+    end_line: w.end_line + 1,
+    lines: lines.slice(w.start_line, w.end_line + 1),
+  }));
+}
+
+// ============================================================================
+// LOG DIFF
+// ============================================================================
+
+export interface LogDiff {
+  added: string[];
+  removed: string[];
+  added_total: number;
+  removed_total: number;
+}
+
+/**
+ * Diff two step logs as line sets, ignoring run-to-run noise
+ *
+ * CI logs rarely line up for a positional diff (timings, parallel output),
+ * so lines are compared after masking numbers and hashes. `added` keeps the
+ * order of the new log, `removed` the order of the old one.
+ */
+export function diffLogLines(current: string[], previous: string[], maxLines: number = 200): LogDiff {
+  const previousSet = new Set(previous.map(normalizeLogLine));
+  const currentSet = new Set(current.map(normalizeLogLine));
+
+  const added = current.filter((l) => l.trim() && !previousSet.has(normalizeLogLine(l)));
+  const removed = previous.filter((l) => l.trim() && !currentSet.has(normalizeLogLine(l)));
+
+  return {
+    added: added.slice(0, maxLines),
+    removed: removed.slice(0, maxLines),
+    added_total: added.length,
+    removed_total: removed.length,
+  };
+}
+
+/**
+ * Mask numbers and hashes so the same error from different runs compares equal
+ */
+export function normalizeLogLine(line: string): string {
+  return line
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{7,40}\b/gi, "<hash>")
+    .replace(/\d+(\.\d+)?/g, "#")
+    .trim();
+}
+
+// ============================================================================
+// LOG SEARCH
+// ============================================================================
+
+export interface LogMatch {
+  job: string;
+  step: string | null;
+  step_number: number | null;
+  line_number: number;
+  line: string;
+  context_before: string[];
+  context_after: string[];
+}
+
+/**
+ * Lines matching a regex across extracted log files, in order
+ *
+ * Lines are cleaned (ANSI codes and timestamps stripped) before matching.
+ * Synchronous: with a caller-supplied pattern, only run it in a worker
+ * (see searchRunLogs).
+ */
+export function* matchLogFiles(files: LogFile[], pattern: RegExp, context: number): Generator<LogMatch> {
+  for (const file of files) {
+    const lines = file.content
+      .split(/\r?\n/)
+      .map((l) => cleanLogLine(l, { strip_ansi: true, strip_timestamps: true }));
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!pattern.test(lines[i])) continue;
+
+      yield {
+        job: file.job,
+        step: file.step,
+        step_number: file.step_number,
+        line_number: i + 1,
+        line: lines[i],
+        context_before: lines.slice(Math.max(0, i - context), i),
+        context_after: lines.slice(i + 1, i + 1 + context),
+      };
+    }
+  }
+}
+
+export interface SearchJob {
+  archive: Uint8Array;
+  source: string;
+  flags: string;
+  context: number;
+  limit: number;
+}
+
+export type SearchWorkerMessage = { match: LogMatch } | { done: true };
+
+/**
+ * Extract a run log archive and search it for a regex, in a worker thread
+ *
+ * A regex can backtrack for hours on one line, and nothing interrupts a
+ * running RegExp.test. So matching happens off the main thread, and the
+ * worker is terminated once `deadline` (epoch ms) passes or `signal`
+ * aborts. Matches found before the deadline are kept, with `timed_out`.
+ */
+export function searchRunLogs(
+  job: SearchJob,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<{ matches: LogMatch[]; timed_out: boolean }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellationError(signal));
+      return;
+    }
+
+    const matches: LogMatch[] = [];
+    const worker = new Worker(new URL("./search-worker.js", import.meta.url), { workerData: job });
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      void worker.terminate();
+      settle();
+    };
+
+    const onAbort = () => finish(() => reject(cancellationError(signal)));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timer = Number.isFinite(deadline)
+      ? setTimeout(() => finish(() => resolve({ matches, timed_out: true })), Math.max(0, deadline - Date.now()))
+      : undefined;
+
+    worker.on("message", (message: SearchWorkerMessage) => {
+      if ("match" in message) {
+        matches.push(message.match);
+      } else {
+        finish(() => resolve({ matches, timed_out: false }));
+      }
+    });
+    worker.on("error", (error) => finish(() => reject(error)));
+    worker.on("exit", (code) => {
+      finish(() => reject(new Error(`Log search worker exited with code ${code}`)));
+    });
+  });
+}
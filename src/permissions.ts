@@ -2,56 +2,264 @@
  * Permission checking and repository access control
  */
 
-import type { Config } from "./config.js";
+import type { Config, PolicyRule } from "./config.js";
+import { hostConfig, parseRepoRef } from "./hosts.js";
+import { notePermission } from "./audit.js";
 
 export type PermissionLevel = "read" | "trigger" | "cancel" | "admin";
 
+export type WriteLevel = Exclude<PermissionLevel, "read">;
+
+/**
+ * What a write acts on, as far as the tool knows it
+ */
+export interface PolicyTarget {
+  repo: string;
+  /** Workflow file path, e.g. ".github/workflows/deploy.yml" */
+  workflow?: string;
+  /** Branch or tag the run is (or will be) on */
+  ref?: string;
+}
+
 /**
  * Check if a permission level is enabled
  */
 export function checkPermission(config: Config, level: PermissionLevel): void {
+  const check = `permission:${level}`;
+
   // Bypass mode skips all permission checks
   if (config.bypass_permissions) {
+    notePermission(check, true, "bypass mode");
     return;
   }
 
   if (!config.permissions[level]) {
-    throw new Error(
-      `Permission denied: "${level}" access is not enabled. ` +
-      `Enable it in config or use --bypass-permissions.`
-    );
+    // Policies can grant a level that is off globally; checkPolicy decides per target
+    if (level !== "read" && hasAllowRule(config, level)) {
+      notePermission(check, true, `"${level}" off globally, allowed by some policies`);
+      return;
+    }
+
+    const message = `Permission denied: "${level}" access is not enabled. ` +
+      `Enable it in config or use --bypass-permissions.`;
+    notePermission(check, false, message);
+    throw new Error(message);
   }
+
+  notePermission(check, true, `"${level}" enabled`);
+}
+
+/**
+ * Check that a write level is enabled globally, for writes that span every
+ * repository (policy rules only grant levels per repository)
+ */
+export function checkGlobalPermission(config: Config, level: WriteLevel): void {
+  const check = `permission:${level}:global`;
+
+  if (config.bypass_permissions) {
+    notePermission(check, true, "bypass mode");
+    return;
+  }
+
+  if (!config.permissions[level]) {
+    const message = `Permission denied: "${level}" access is not enabled globally, ` +
+      `and policies only grant it per repository.`;
+    notePermission(check, false, message);
+    throw new Error(message);
+  }
+
+  notePermission(check, true, `"${level}" enabled`);
 }
 
 /**
  * Check if a repository is accessible based on whitelist/blacklist
+ *
+ * Each host has its own lists; patterns are "owner/repo" without the host.
  */
 export function checkRepoAccess(config: Config, repo: string): void {
+  const check = "repo_access";
+
   // Bypass mode skips all access checks
   if (config.bypass_permissions) {
+    notePermission(check, true, "bypass mode");
     return;
   }
 
-  const { whitelist_repos, blacklist_repos } = config.permissions;
+  const access = repoAccess(config, repo);
+  notePermission(check, access.allowed, access.reason);
+  if (!access.allowed) {
+    throw new Error(access.reason);
+  }
+}
+
+/**
+ * Whether checkRepoAccess would let a repository through, without throwing
+ * or recording the check (e.g. to filter what a listing shows)
+ */
+export function canAccessRepo(config: Config, repo: string): boolean {
+  if (config.bypass_permissions) return true;
+  try {
+    return repoAccess(config, repo).allowed;
+  } catch {
+    return false; // Unknown host
+  }
+}
+
+function repoAccess(config: Config, repo: string): { allowed: boolean; reason: string } {
+  const ref = parseRepoRef(config, repo);
+  const { whitelist_repos, blacklist_repos } = hostConfig(config, ref.host) ?? config.permissions;
+  const name = `${ref.owner}/${ref.repo}`;
 
   // Blacklist always wins
-  if (blacklist_repos.length > 0 && matchesAny(repo, blacklist_repos)) {
-    throw new Error(
-      `Access denied: repository "${repo}" is blacklisted.`
-    );
+  if (blacklist_repos.length > 0 && matchesAny(name, blacklist_repos)) {
+    return { allowed: false, reason: `Access denied: repository "${repo}" is blacklisted.` };
   }
 
   // Empty whitelist = all repos allowed
   if (whitelist_repos.length === 0) {
-    return;
+    return { allowed: true, reason: "no whitelist" };
   }
 
   // Non-empty whitelist = must match
-  if (!matchesAny(repo, whitelist_repos)) {
-    throw new Error(
-      `Access denied: repository "${repo}" is not in the whitelist.`
-    );
+  if (!matchesAny(name, whitelist_repos)) {
+    return { allowed: false, reason: `Access denied: repository "${repo}" is not in the whitelist.` };
   }
+
+  return { allowed: true, reason: "whitelisted" };
+}
+
+/**
+ * Check a write against the host's policy rules
+ *
+ * The first rule whose action and scopes match decides; a denial names the
+ * rule. A scope the tool can't know (no ref when enabling a workflow) makes
+ * an allow rule miss, while deny rules still apply. With no matching rule,
+ * the global permission flag decides.
+ */
+export function checkPolicy(config: Config, level: WriteLevel, target: PolicyTarget): void {
+  const check = `policy:${level}`;
+
+  if (config.bypass_permissions) {
+    notePermission(check, true, "bypass mode");
+    return;
+  }
+
+  const ref = parseRepoRef(config, target.repo);
+  const rules = hostConfig(config, ref.host)?.policies ?? config.permissions.policies;
+  const subject = describeTarget(level, target);
+
+  for (const [index, rule] of rules.entries()) {
+    if (!ruleMatches(rule, level, `${ref.owner}/${ref.repo}`, target)) continue;
+
+    const label = rule.name ?? `policies[${index}]`;
+    if (rule.effect === "allow") {
+      notePermission(check, true, `allowed by policy "${label}"`);
+      return;
+    }
+
+    const message = `Permission denied by policy "${label}": ${subject}`;
+    notePermission(check, false, message);
+    throw new Error(message);
+  }
+
+  if (!config.permissions[level]) {
+    const message = `Permission denied: no policy allows ${subject}, and "${level}" access is not enabled.`;
+    notePermission(check, false, message);
+    throw new Error(message);
+  }
+
+  notePermission(check, true, `no policy matched, "${level}" enabled`);
+}
+
+/**
+ * Whether the repo's host has rules for a level scoped by workflow or ref,
+ * i.e. whether checkPolicy needs those facts for this call
+ */
+export function policyNeedsDetails(config: Config, level: WriteLevel, repo: string): boolean {
+  const ref = parseRepoRef(config, repo);
+  const rules = hostConfig(config, ref.host)?.policies ?? config.permissions.policies;
+  return rules.some((r) => r.actions?.includes(level) && (r.workflows || r.refs));
+}
+
+/**
+ * Whether writes to a repository must be previewed and confirmed first
+ *
+ * Unlike the checks above, this is not skipped in bypass mode.
+ */
+export function requiresConfirmation(config: Config, repo: string): boolean {
+  const { enabled, repos } = config.confirm_writes;
+  if (!enabled) return false;
+  if (repos.length === 0) return true;
+
+  const ref = parseRepoRef(config, repo);
+  return matchesAny(`${ref.owner}/${ref.repo}`, repos);
+}
+
+function ruleMatches(rule: PolicyRule, level: WriteLevel, repo: string, target: PolicyTarget): boolean {
+  if (!rule.actions?.includes(level)) return false;
+
+  if (rule.repos && !rule.repos.some((p) => globMatch(p, repo, true))) {
+    return false;
+  }
+
+  // A scope the call can't be checked against (a run without a branch,
+  // enabling a workflow has no ref) never satisfies an allow rule, but
+  // doesn't stop a deny rule from applying
+  const loose = rule.effect !== "allow";
+
+  if (rule.workflows) {
+    if (target.workflow) {
+      const path = target.workflow;
+      const file = path.split("/").pop() ?? path;
+      const matched = rule.workflows.some((p) =>
+        globMatch(p, p.includes("/") ? path : file, true)
+      );
+      if (!matched) return false;
+    } else if (!loose) {
+      return false;
+    }
+  }
+
+  if (rule.refs) {
+    if (target.ref) {
+      const ref = shortRef(target.ref);
+      if (!rule.refs.some((p) => globMatch(shortRef(p), ref, false))) return false;
+    } else if (!loose) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Whether any rule on any host allows a level
+ */
+function hasAllowRule(config: Config, level: WriteLevel): boolean {
+  return [config.permissions.policies, ...Object.values(config.hosts).map((h) => h.policies)]
+    .some((rules) => rules.some((r) => r.effect === "allow" && r.actions?.includes(level)));
+}
+
+function describeTarget(level: WriteLevel, target: PolicyTarget): string {
+  let text = `"${level}" on ${target.repo}`;
+  if (target.workflow) text += ` workflow ${target.workflow}`;
+  if (target.ref) text += ` ref ${shortRef(target.ref)}`;
+  return text;
+}
+
+function shortRef(ref: string): string {
+  return ref.replace(/^refs\/(heads|tags)\//, "");
+}
+
+/**
+ * Match a pattern where `*` stands for any characters (including "/")
+ */
+function globMatch(pattern: string, value: string, ignoreCase: boolean): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "").test(value);
 }
 
 /**
@@ -0,0 +1,22 @@
+/**
+ * Worker for searchRunLogs: extracts one run log archive and matches the
+ * caller's regex against it, off the server's main thread
+ *
+ * Each match is posted as soon as it's found, so matches survive the worker
+ * being terminated at the deadline.
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { extractRunLogs, matchLogFiles, type SearchJob, type SearchWorkerMessage } from "./logs.js";
+
+const job = workerData as SearchJob;
+const post = (message: SearchWorkerMessage) => parentPort?.postMessage(message);
+
+let found = 0;
+if (job.limit > 0) {
+  for (const match of matchLogFiles(extractRunLogs(job.archive), new RegExp(job.source, job.flags), job.context)) {
+    post({ match });
+    if (++found >= job.limit) break;
+  }
+}
+post({ done: true });
@@ -3,22 +3,147 @@
  */
 
 /**
- * Wrap a promise with a timeout
- * Part of NEVERHANG architecture - we never hang on external calls
+ * Run an abortable operation with a timeout
+ * Part of NEVERHANG architecture - we never hang on external calls.
+ * The operation receives an AbortSignal that fires on timeout or when
+ * `parent` aborts (e.g. the MCP client cancelled the request), so the
+ * underlying HTTP request is actually cancelled. The timer is always cleared.
  */
 export async function withTimeout<T>(
-  promise: Promise<T>,
+  operation: (signal: AbortSignal) => Promise<T>,
   ms: number,
-  message?: string
+  message?: string,
+  parent?: AbortSignal
 ): Promise<T> {
-  const timeout = new Promise<never>((_, reject) => {
-    const id = setTimeout(() => {
-      clearTimeout(id);
-      reject(new Error(message || `Operation timed out after ${ms}ms`));
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(new Error(message || `Operation timed out after ${ms}ms`));
+  }, ms);
+
+  const onParentAbort = () => controller.abort(cancellationError(parent));
+  if (parent?.aborted) {
+    onParentAbort();
+  } else {
+    parent?.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  try {
+    // Reject on abort even if the operation ignores its signal
+    return await new Promise<T>((resolve, reject) => {
+      if (controller.signal.aborted) {
+        reject(controller.signal.reason);
+        return;
+      }
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+      operation(controller.signal).then(resolve, reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    parent?.removeEventListener("abort", onParentAbort);
+  }
+}
+
+/**
+ * Wait for `ms`, cut short (with a rejection) if `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellationError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellationError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
     }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise that other callers may share, rejecting early if
+ * `signal` aborts. The promise itself keeps running for the others.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(cancellationError(signal));
+      return;
+    }
+
+    const onAbort = () => reject(cancellationError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
   });
+}
 
-  return Promise.race([promise, timeout]);
+/**
+ * The error to reject with when a signal aborts a wait
+ */
+export function cancellationError(signal?: AbortSignal): Error {
+  return signal?.reason instanceof Error ? signal.reason : new Error("Operation cancelled");
+}
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryPolicy {
+  max_attempts: number;
+  base_delay_ms: number;
+  max_delay_ms: number;
+}
+
+export interface RetryVerdict {
+  retry: boolean;
+  after_ms?: number; // minimum wait, e.g. from Retry-After
+}
+
+/**
+ * Retry an operation with jittered exponential backoff
+ * All attempts and waits share one NEVERHANG budget; each attempt is told
+ * how much of it is left. `classify` decides which errors are worth retrying.
+ * Nothing is retried once `signal` has aborted.
+ */
+export async function withRetry<T>(
+  operation: (remainingMs: number) => Promise<T>,
+  budgetMs: number,
+  policy: RetryPolicy,
+  classify: (error: unknown) => RetryVerdict,
+  signal?: AbortSignal
+): Promise<T> {
+  const deadline = Date.now() + budgetMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(Math.max(0, deadline - Date.now()));
+    } catch (error) {
+      const verdict = classify(error);
+      if (signal?.aborted || !verdict.retry || attempt >= policy.max_attempts) {
+        throw error;
+      }
+
+      // Equal jitter: half fixed, half random, so retries never bunch up at zero
+      const backoff = Math.min(policy.max_delay_ms, policy.base_delay_ms * 2 ** (attempt - 1));
+      const jittered = backoff / 2 + Math.random() * (backoff / 2);
+      const delay = Math.ceil(Math.max(verdict.after_ms ?? 0, jittered));
+
+      if (Date.now() + delay >= deadline) {
+        throw error; // No budget left for another attempt
+      }
+
+      console.error(
+        `[retry] Attempt ${attempt}/${policy.max_attempts} failed, retrying in ${delay}ms`
+      );
+      await sleep(delay, signal);
+    }
+  }
 }
 
 /**
@@ -55,6 +180,21 @@ export class CircuitBreaker {
     );
   }
 
+  /**
+   * Current state, for diagnostics (does not change the breaker)
+   */
+  status(): { open: boolean; failures: number; cooldown_remaining_s: number } {
+    const remaining = this.isOpen
+      ? Math.max(0, this.cooldownMs - (Date.now() - this.lastFailure))
+      : 0;
+
+    return {
+      open: remaining > 0,
+      failures: this.failures,
+      cooldown_remaining_s: Math.ceil(remaining / 1000),
+    };
+  }
+
   /**
    * Record a successful operation
    */
@@ -95,6 +235,7 @@ export interface RateLimitInfo {
   remaining: number;
   limit: number;
   reset_at: Date;
+  resource?: string;
 }
 
 export function parseRateLimitHeaders(headers: Record<string, string | undefined>): RateLimitInfo | null {
@@ -110,5 +251,6 @@ export function parseRateLimitHeaders(headers: Record<string, string | undefined
     remaining: parseInt(remaining, 10),
     limit: parseInt(limit, 10),
     reset_at: new Date(parseInt(reset, 10) * 1000),
+    resource: headers["x-ratelimit-resource"],
   };
 }
@@ -0,0 +1,368 @@
+/**
+ * Webhook receiver - real-time run updates without polling
+ *
+ * An optional HTTP listener for `workflow_run` and `workflow_job` deliveries.
+ * Every delivery must carry a valid X-Hub-Signature-256; unsigned or
+ * mis-signed requests are rejected. Accepted deliveries update an in-memory
+ * state table that the run tools consult before calling GitHub, and wake up
+ * anyone waiting on the run.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { Config } from "./config.js";
+import { cancellationError } from "./utils.js";
+import { DEFAULT_HOST } from "./hosts.js";
+
+export interface WebhookEvent {
+  delivery_id: string | null;
+  event: "workflow_run" | "workflow_job";
+  action: string;
+  repo: string;
+  run_id: number;
+  attempt: number | null;
+  job_id: number | null;
+  name: string | null;
+  status: string | null;
+  conclusion: string | null;
+  received_at: string;
+}
+
+export interface WebhookEventFilter {
+  repo?: string;
+  run_id?: number;
+  event?: WebhookEvent["event"];
+  limit?: number;
+}
+
+/** The fields we read; run snapshots keep the whole delivered object */
+interface RunSnapshot {
+  id: number;
+  run_attempt?: number;
+  name?: string | null;
+  status: string | null;
+  conclusion?: string | null;
+  updated_at: string;
+}
+
+interface JobSnapshot {
+  id: number;
+  run_id: number;
+  run_attempt?: number;
+  name?: string | null;
+  status: string | null;
+  conclusion?: string | null;
+}
+
+interface DeliveryPayload {
+  action?: string;
+  repository?: { full_name?: string; html_url?: string };
+  workflow_run?: RunSnapshot;
+  workflow_job?: JobSnapshot;
+}
+
+// GitHub caps payloads at 25 MB
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+// Run snapshots kept; the oldest is dropped first
+const MAX_RUNS = 1000;
+
+/**
+ * Verify a delivery's X-Hub-Signature-256 header ("sha256=<hex>")
+ */
+export function verifySignature(body: Buffer, header: string | undefined, secret: string): boolean {
+  if (!header?.startsWith("sha256=")) return false;
+
+  const expected = createHmac("sha256", secret).update(body).digest();
+  const given = Buffer.from(header.slice("sha256=".length), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export class WebhookState {
+  /** True while the receiver is accepting deliveries */
+  listening = false;
+
+  private readonly runs = new Map<string, RunSnapshot>();
+  private readonly events: WebhookEvent[] = [];
+  private readonly emitter = new EventEmitter();
+  private received = 0;
+  private rejected = 0;
+
+  constructor(private readonly maxEvents: number) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Apply a verified delivery. Returns the recorded event, or null for
+   * event types we don't track.
+   */
+  record(event: string, deliveryId: string | null, payload: DeliveryPayload): WebhookEvent | null {
+    const repo = deliveredRepo(payload);
+    if (!repo) return null;
+
+    let run_id: number;
+    let job_id: number | null = null;
+    let subject: RunSnapshot | JobSnapshot;
+
+    if (event === "workflow_run" && payload.workflow_run) {
+      subject = payload.workflow_run;
+      run_id = subject.id;
+      this.storeRun(repo, payload.workflow_run);
+    } else if (event === "workflow_job" && payload.workflow_job) {
+      subject = payload.workflow_job;
+      run_id = payload.workflow_job.run_id;
+      job_id = subject.id;
+    } else {
+      return null;
+    }
+
+    const recorded: WebhookEvent = {
+      delivery_id: deliveryId,
+      event,
+      action: payload.action ?? "",
+      repo,
+      run_id,
+      attempt: subject.run_attempt ?? null,
+      job_id,
+      name: subject.name ?? null,
+      status: subject.status ?? null,
+      conclusion: subject.conclusion ?? null,
+      received_at: new Date().toISOString(),
+    };
+
+    this.events.push(recorded);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    this.received++;
+
+    this.emitter.emit(runKey(repo, run_id), recorded);
+    return recorded;
+  }
+
+  recordRejected(): void {
+    this.rejected++;
+  }
+
+  /**
+   * The run as last delivered, if it has completed
+   *
+   * A completed run only changes when it is re-run, which delivers a new
+   * event. Runs still in progress are not served: a missed delivery would
+   * leave them stale.
+   */
+  getCompletedRun(repo: string, run_id: number, attempt?: number): unknown | null {
+    const run = this.runs.get(runKey(repo, run_id));
+    if (!run || run.status !== "completed") return null;
+    if (attempt !== undefined && (run.run_attempt ?? 1) !== attempt) return null;
+    return run;
+  }
+
+  /**
+   * Drop a run's snapshot, e.g. right after re-running it
+   */
+  forgetRun(repo: string, run_id: number): void {
+    this.runs.delete(runKey(repo, run_id));
+  }
+
+  /**
+   * Resolve when a delivery for the run arrives (true) or after `ms` (false)
+   */
+  waitForRun(repo: string, run_id: number, ms: number, signal?: AbortSignal): Promise<boolean> {
+    const key = runKey(repo, run_id);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancellationError(signal));
+        return;
+      }
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.emitter.off(key, onEvent);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onEvent = () => {
+        cleanup();
+        resolve(true);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(cancellationError(signal));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve(false);
+      }, ms);
+
+      this.emitter.on(key, onEvent);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Recently received events, newest first
+   */
+  recent(filter: WebhookEventFilter = {}): WebhookEvent[] {
+    const repo = filter.repo?.toLowerCase();
+    return this.events
+      .filter((e) =>
+        (!repo || e.repo.toLowerCase() === repo) &&
+        (filter.run_id === undefined || e.run_id === filter.run_id) &&
+        (!filter.event || e.event === filter.event)
+      )
+      .reverse()
+      .slice(0, filter.limit ?? this.maxEvents);
+  }
+
+  stats(): { listening: boolean; received: number; rejected: number; buffered: number; runs_tracked: number } {
+    return {
+      listening: this.listening,
+      received: this.received,
+      rejected: this.rejected,
+      buffered: this.events.length,
+      runs_tracked: this.runs.size,
+    };
+  }
+
+  private storeRun(repo: string, run: RunSnapshot): void {
+    const key = runKey(repo, run.id);
+    const current = this.runs.get(key);
+
+    // Deliveries can arrive out of order; never go back in time
+    if (current) {
+      const currentAttempt = current.run_attempt ?? 1;
+      const attempt = run.run_attempt ?? 1;
+      if (attempt < currentAttempt) return;
+      if (attempt === currentAttempt && run.updated_at < current.updated_at) return;
+    }
+
+    this.runs.delete(key);
+    this.runs.set(key, run);
+    if (this.runs.size > MAX_RUNS) {
+      const oldest = this.runs.keys().next().value;
+      if (oldest !== undefined) this.runs.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Start the HTTP receiver. Returns null (and logs why) when it can't run.
+ */
+export function startWebhookReceiver(options: Config["webhook"], state: WebhookState): Server | null {
+  const secret = process.env[options.secret_env];
+  if (!secret) {
+    console.error(`[webhook] ${options.secret_env} not set, receiver not started (unsigned deliveries are never accepted)`);
+    return null;
+  }
+
+  const server = createServer((req, res) => {
+    handleDelivery(req, res, options, secret, state);
+  });
+
+  server.on("error", (error) => {
+    state.listening = false;
+    console.error("[webhook] Receiver error:", error);
+  });
+
+  server.listen(options.port, options.host, () => {
+    state.listening = true;
+    console.error(`[webhook] Listening on http://${options.host}:${options.port}${options.path}`);
+  });
+
+  // Don't keep the process alive once the MCP client disconnects
+  server.unref();
+  return server;
+}
+
+function handleDelivery(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: Config["webhook"],
+  secret: string,
+  state: WebhookState
+): void {
+  const path = (req.url ?? "").split("?")[0];
+  if (path !== options.path) {
+    respond(res, 404, "Not found");
+    return;
+  }
+  if (req.method !== "POST") {
+    respond(res, 405, "Method not allowed");
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      respond(res, 413, "Payload too large");
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+
+  req.on("end", () => {
+    if (res.writableEnded) return;
+    const body = Buffer.concat(chunks);
+
+    if (!verifySignature(body, req.headers["x-hub-signature-256"] as string | undefined, secret)) {
+      state.recordRejected();
+      console.error("[webhook] Rejected delivery with missing or invalid signature");
+      respond(res, 401, "Invalid signature");
+      return;
+    }
+
+    let payload: DeliveryPayload;
+    try {
+      payload = JSON.parse(body.toString("utf-8")) as DeliveryPayload;
+    } catch {
+      respond(res, 400, "Invalid JSON");
+      return;
+    }
+
+    const event = String(req.headers["x-github-event"] ?? "");
+    const deliveryId = (req.headers["x-github-delivery"] as string | undefined) ?? null;
+
+    if (event === "ping") {
+      respond(res, 200, "pong");
+      return;
+    }
+
+    const recorded = state.record(event, deliveryId, payload);
+    respond(res, recorded ? 200 : 202, recorded ? "Recorded" : `Ignored event "${event}"`);
+  });
+}
+
+function respond(res: ServerResponse, status: number, message: string): void {
+  if (res.writableEnded) return;
+  res.writeHead(status, { "Content-Type": "text/plain" });
+  res.end(message);
+}
+
+/**
+ * The delivery's repository as a repo argument: "owner/repo" from
+ * github.com, "hostname/owner/repo" from other hosts
+ */
+function deliveredRepo(payload: DeliveryPayload): string | null {
+  const name = payload.repository?.full_name;
+  if (!name) return null;
+
+  let host = DEFAULT_HOST;
+  try {
+    if (payload.repository?.html_url) {
+      host = new URL(payload.repository.html_url).hostname.toLowerCase();
+    }
+  } catch {
+    // Keep the default host
+  }
+  return host === DEFAULT_HOST ? name : `${host}/${name}`;
+}
+
+function runKey(repo: string, run_id: number): string {
+  return `${repo.toLowerCase()}#${run_id}`;
+}
@@ -0,0 +1,500 @@
+/**
+ * Workflow YAML parsing and static lint
+ *
+ * Turns a workflow file into the parts an agent needs (triggers, jobs and
+ * their `needs` graph, matrices, permissions, dispatch inputs) and flags
+ * common mistakes. Purely local: the caller fetches the YAML.
+ */
+
+import { LineCounter, parseDocument, isMap, isNode, isScalar, isSeq, type Document } from "yaml";
+
+export interface DispatchInput {
+  type: string;
+  required: boolean;
+  default: unknown;
+  description: string | null;
+  options: string[] | null;
+}
+
+export interface WorkflowTrigger {
+  event: string;
+  /** Filters and settings (branches, paths, types, cron, inputs...), null if none */
+  config: Record<string, unknown> | null;
+}
+
+export interface WorkflowMatrix {
+  dimensions: Record<string, unknown[]>;
+  include: unknown[];
+  exclude: unknown[];
+  /** Combinations before include/exclude; null when the matrix is an expression */
+  base_combinations: number | null;
+  expression: string | null;
+}
+
+export interface WorkflowJobInfo {
+  id: string;
+  name: string | null;
+  runs_on: unknown;
+  /** Reusable workflow this job calls, if any */
+  uses: string | null;
+  needs: string[];
+  if: string | null;
+  permissions: unknown;
+  environment: unknown;
+  timeout_minutes: unknown;
+  matrix: WorkflowMatrix | null;
+  steps: number;
+  line: number | null;
+}
+
+export interface ParsedWorkflow {
+  name: string | null;
+  triggers: WorkflowTrigger[];
+  permissions: unknown;
+  concurrency: unknown;
+  env: string[];
+  jobs: WorkflowJobInfo[];
+  /** Jobs grouped by the order they can start in; null when `needs` has a cycle */
+  stages: string[][] | null;
+  dispatch_inputs: Record<string, DispatchInput> | null;
+}
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  job: string | null;
+  step: string | null;
+  line: number | null;
+}
+
+type YamlMap = Record<string, unknown>;
+
+interface LoadedWorkflow {
+  doc: Document;
+  lines: LineCounter;
+  data: YamlMap;
+}
+
+// Actions we don't require to be pinned to a commit SHA
+const TRUSTED_ACTION_OWNERS = new Set(["actions", "github"]);
+
+const FULL_SHA = /^[0-9a-f]{40}$/;
+
+// Event fields an attacker controls, unsafe to interpolate into `run:`
+const UNTRUSTED_CONTEXT = new RegExp(
+  "\\$\\{\\{[^}]*github\\.(" +
+  [
+    "event\\.(issue|pull_request|discussion)\\.(title|body)",
+    "event\\.comment\\.body",
+    "event\\.review(_comment)?\\.body",
+    "event\\.pull_request\\.head\\.(ref|label)",
+    "event\\.head_commit\\.(message|author\\.(name|email))",
+    "event\\.commits\\b",
+    "head_ref",
+  ].join("|") +
+  ")"
+);
+
+/**
+ * Parse workflow YAML into its triggers, jobs, graph and inputs
+ *
+ * Throws on YAML syntax errors or when the file isn't a workflow mapping.
+ */
+export function parseWorkflow(text: string): ParsedWorkflow {
+  const { doc, lines, data } = loadWorkflow(text);
+
+  const jobsMap = asMap(data.jobs) ?? {};
+  const jobs = Object.entries(jobsMap).map(([id, value]) => {
+    const job = asMap(value) ?? {};
+    return {
+      id,
+      name: asString(job.name),
+      runs_on: job["runs-on"] ?? null,
+      uses: asString(job.uses),
+      needs: toList(job.needs),
+      if: job.if === undefined ? null : String(job.if),
+      permissions: job.permissions ?? null,
+      environment: job.environment ?? null,
+      timeout_minutes: job["timeout-minutes"] ?? null,
+      matrix: parseMatrix(asMap(job.strategy)?.matrix),
+      steps: Array.isArray(job.steps) ? job.steps.length : 0,
+      line: lineOf(doc, lines, ["jobs", id]),
+    };
+  });
+
+  const triggers = parseTriggers(data.on);
+  const dispatch = triggers.find((t) => t.event === "workflow_dispatch");
+
+  return {
+    name: asString(data.name),
+    triggers,
+    permissions: data.permissions ?? null,
+    concurrency: data.concurrency ?? null,
+    env: Object.keys(asMap(data.env) ?? {}),
+    jobs,
+    stages: stageJobs(jobs),
+    dispatch_inputs: dispatch ? parseDispatchInputs(dispatch.config?.inputs) : null,
+  };
+}
+
+/**
+ * Check a workflow for common mistakes
+ *
+ * Syntax errors are returned as a single finding rather than thrown.
+ */
+export function lintWorkflow(text: string): LintFinding[] {
+  let loaded: LoadedWorkflow;
+  try {
+    loaded = loadWorkflow(text);
+  } catch (error) {
+    return [finding("invalid-yaml", "error", error instanceof Error ? error.message : String(error))];
+  }
+
+  const { doc, lines, data } = loaded;
+  const findings: LintFinding[] = [];
+
+  if (data.on === undefined) {
+    findings.push(finding("missing-on", "error", "Workflow has no `on:` triggers"));
+  }
+
+  const jobsMap = asMap(data.jobs);
+  if (!jobsMap || Object.keys(jobsMap).length === 0) {
+    findings.push(finding("missing-jobs", "error", "Workflow has no jobs"));
+    return findings;
+  }
+
+  const triggers = parseTriggers(data.on).map((t) => t.event);
+  const prTarget = triggers.includes("pull_request_target");
+  const jobIds = new Set(Object.keys(jobsMap));
+  const unscoped: string[] = [];
+
+  for (const [jobId, value] of Object.entries(jobsMap)) {
+    const job = asMap(value) ?? {};
+
+    if (data.permissions === undefined && job.permissions === undefined) {
+      unscoped.push(jobId);
+    }
+
+    for (const need of toList(job.needs)) {
+      if (!jobIds.has(need)) {
+        findings.push(finding(
+          "undefined-needs",
+          "error",
+          `Job "${jobId}" needs "${need}", which is not a job in this workflow`,
+          { job: jobId, line: lineOf(doc, lines, ["jobs", jobId, "needs"]) }
+        ));
+      }
+    }
+
+    const jobUses = asString(job.uses);
+    if (jobUses) {
+      checkPinned(jobUses, findings, { job: jobId, line: lineOf(doc, lines, ["jobs", jobId, "uses"]) });
+    }
+
+    const steps = Array.isArray(job.steps) ? job.steps : [];
+    steps.forEach((stepValue, index) => {
+      const step = asMap(stepValue) ?? {};
+      const stepName = asString(step.name) ?? asString(step.uses) ?? `step ${index + 1}`;
+      const at = { job: jobId, step: stepName };
+
+      const uses = asString(step.uses);
+      if (uses) {
+        checkPinned(uses, findings, { ...at, line: lineOf(doc, lines, ["jobs", jobId, "steps", index, "uses"]) });
+
+        if (prTarget && /^actions\/checkout@/.test(uses)) {
+          const ref = String(asMap(step.with)?.ref ?? "");
+          if (/github\.event\.pull_request\.head\.(sha|ref)|github\.head_ref|refs\/pull\//.test(ref)) {
+            findings.push(finding(
+              "pr-target-checkout",
+              "error",
+              "pull_request_target checks out the pull request's head: untrusted code runs with " +
+              "a write token and secrets. Use pull_request, or never build or run the checked-out code",
+              { ...at, line: lineOf(doc, lines, ["jobs", jobId, "steps", index, "with", "ref"]) }
+            ));
+          }
+        }
+      }
+
+      const run = asString(step.run);
+      if (run && UNTRUSTED_CONTEXT.test(run)) {
+        findings.push(finding(
+          "script-injection",
+          "warning",
+          "`run:` interpolates attacker-controlled event data. Pass it through `env:` and quote the variable instead",
+          { ...at, line: lineOf(doc, lines, ["jobs", jobId, "steps", index, "run"]) }
+        ));
+      }
+    });
+  }
+
+  if (unscoped.length > 0) {
+    findings.push(finding(
+      "missing-permissions",
+      "warning",
+      `No \`permissions:\` at the top level or on job(s) ${unscoped.join(", ")}: ` +
+      "GITHUB_TOKEN gets the repository's default scopes, which may include write access",
+      { line: lineOf(doc, lines, ["jobs"]) }
+    ));
+  }
+
+  const jobs = Object.entries(jobsMap).map(([id, value]) => ({
+    id,
+    needs: toList(asMap(value)?.needs).filter((n) => jobIds.has(n)),
+  }));
+  if (stageJobs(jobs) === null) {
+    findings.push(finding("needs-cycle", "error", "Jobs' `needs` form a cycle, none of them can start"));
+  }
+
+  return findings;
+}
+
+/**
+ * Check dispatch inputs against a workflow's `workflow_dispatch.inputs` and
+ * fill in defaults. Throws listing every problem: unknown names, missing
+ * required inputs, values outside a choice's options, non-boolean or
+ * non-numeric values for typed inputs.
+ */
+export function validateDispatchInputs(
+  schema: Record<string, DispatchInput>,
+  given: Record<string, string | number | boolean> = {}
+): { inputs: Record<string, string>; defaults_applied: string[] } {
+  const problems: string[] = [];
+  const inputs: Record<string, string> = {};
+  const defaultsApplied: string[] = [];
+
+  for (const name of Object.keys(given)) {
+    if (!(name in schema)) {
+      const accepted = Object.keys(schema);
+      problems.push(
+        `Unknown input "${name}" (accepted: ${accepted.length > 0 ? accepted.join(", ") : "none"})`
+      );
+    }
+  }
+
+  for (const [name, input] of Object.entries(schema)) {
+    let value: string;
+
+    if (given[name] !== undefined) {
+      value = String(given[name]);
+    } else if (input.default !== null && input.default !== undefined) {
+      value = String(input.default);
+      defaultsApplied.push(name);
+    } else {
+      if (input.required) problems.push(`Missing required input "${name}"`);
+      continue;
+    }
+
+    switch (input.type) {
+      case "boolean":
+        if (value !== "true" && value !== "false") {
+          problems.push(`Input "${name}" must be true or false, got "${value}"`);
+        }
+        break;
+      case "number":
+        if (value.trim() === "" || !Number.isFinite(Number(value))) {
+          problems.push(`Input "${name}" must be a number, got "${value}"`);
+        }
+        break;
+      case "choice":
+        if (input.options && !input.options.includes(value)) {
+          problems.push(`Input "${name}" must be one of ${input.options.join(", ")}, got "${value}"`);
+        }
+        break;
+    }
+
+    inputs[name] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid workflow inputs:\n- ${problems.join("\n- ")}`);
+  }
+  return { inputs, defaults_applied: defaultsApplied };
+}
+
+function loadWorkflow(text: string): LoadedWorkflow {
+  const lines = new LineCounter();
+  const doc = parseDocument(text, { lineCounter: lines, prettyErrors: true });
+
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+  }
+
+  const data = asMap(doc.toJS());
+  if (!data) {
+    throw new Error("Workflow file is not a YAML mapping");
+  }
+  return { doc, lines, data };
+}
+
+/**
+ * `on:` as a list of events; accepts the string, list and mapping forms
+ */
+function parseTriggers(on: unknown): WorkflowTrigger[] {
+  if (typeof on === "string") return [{ event: on, config: null }];
+  if (Array.isArray(on)) return on.map((event) => ({ event: String(event), config: null }));
+
+  const map = asMap(on);
+  if (!map) return [];
+
+  return Object.entries(map).map(([event, config]) => {
+    // Schedules are a list of { cron } entries
+    if (Array.isArray(config)) return { event, config: { entries: config } };
+    return { event, config: asMap(config) };
+  });
+}
+
+function parseDispatchInputs(value: unknown): Record<string, DispatchInput> {
+  const inputs: Record<string, DispatchInput> = {};
+
+  for (const [name, raw] of Object.entries(asMap(value) ?? {})) {
+    const input = asMap(raw) ?? {};
+    inputs[name] = {
+      type: asString(input.type) ?? "string",
+      required: input.required === true,
+      default: input.default ?? null,
+      description: asString(input.description),
+      options: Array.isArray(input.options) ? input.options.map(String) : null,
+    };
+  }
+
+  return inputs;
+}
+
+function parseMatrix(value: unknown): WorkflowMatrix | null {
+  if (value === undefined || value === null) return null;
+
+  // e.g. matrix: ${{ fromJSON(needs.setup.outputs.matrix) }}
+  if (typeof value === "string") {
+    return { dimensions: {}, include: [], exclude: [], base_combinations: null, expression: value };
+  }
+
+  const map = asMap(value) ?? {};
+  const dimensions: Record<string, unknown[]> = {};
+  let expression: string | null = null;
+
+  for (const [key, values] of Object.entries(map)) {
+    if (key === "include" || key === "exclude") continue;
+    if (Array.isArray(values)) {
+      dimensions[key] = values;
+    } else if (typeof values === "string") {
+      expression = values;
+    }
+  }
+
+  const sizes = Object.values(dimensions).map((v) => v.length);
+  return {
+    dimensions,
+    include: toArray(map.include),
+    exclude: toArray(map.exclude),
+    base_combinations: expression ? null : sizes.length > 0 ? sizes.reduce((a, b) => a * b, 1) : 0,
+    expression,
+  };
+}
+
+/**
+ * Group jobs into stages: each stage only needs jobs from earlier stages.
+ * Unknown `needs` are ignored. Returns null on a cycle.
+ */
+function stageJobs(jobs: Array<{ id: string; needs: string[] }>): string[][] | null {
+  const ids = new Set(jobs.map((j) => j.id));
+  const placed = new Set<string>();
+  const stages: string[][] = [];
+
+  while (placed.size < jobs.length) {
+    const ready = jobs
+      .filter((j) => !placed.has(j.id))
+      .filter((j) => j.needs.every((n) => placed.has(n) || !ids.has(n)))
+      .map((j) => j.id);
+
+    if (ready.length === 0) return null;
+    ready.forEach((id) => placed.add(id));
+    stages.push(ready);
+  }
+
+  return stages;
+}
+
+/**
+ * Flag `uses:` references to third-party actions that aren't pinned to a commit SHA
+ */
+function checkPinned(
+  uses: string,
+  findings: LintFinding[],
+  at: { job?: string; step?: string; line?: number | null }
+): void {
+  // Local actions and Docker images are out of scope
+  if (uses.startsWith("./") || uses.startsWith("docker://")) return;
+
+  const [path, ref] = uses.split("@");
+  const owner = path.split("/")[0].toLowerCase();
+  if (TRUSTED_ACTION_OWNERS.has(owner)) return;
+
+  if (!ref) {
+    findings.push(finding("unpinned-action", "warning", `"${uses}" has no version at all`, at));
+  } else if (!FULL_SHA.test(ref)) {
+    findings.push(finding(
+      "unpinned-action",
+      "warning",
+      `"${uses}" is pinned to "${ref}", which can be moved. Pin third-party actions to a full commit SHA`,
+      at
+    ));
+  }
+}
+
+function finding(
+  rule: string,
+  severity: LintSeverity,
+  message: string,
+  at: { job?: string; step?: string; line?: number | null } = {}
+): LintFinding {
+  return {
+    rule,
+    severity,
+    message,
+    job: at.job ?? null,
+    step: at.step ?? null,
+    line: at.line ?? null,
+  };
+}
+
+/**
+ * 1-based line of the key at `path` (of the item, for list indexes)
+ */
+function lineOf(doc: Document, lines: LineCounter, path: Array<string | number>): number | null {
+  const last = path[path.length - 1];
+  const parent = path.length > 1 ? doc.getIn(path.slice(0, -1), true) : doc.contents;
+  let node: unknown = null;
+
+  if (isMap(parent)) {
+    node = parent.items.find((pair) => isScalar(pair.key) && pair.key.value === last)?.key;
+  } else if (isSeq(parent) && typeof last === "number") {
+    node = parent.items[last];
+  }
+
+  if (!isNode(node) || !node.range) return null;
+  return lines.linePos(node.range[0]).line;
+}
+
+function asMap(value: unknown): YamlMap | null {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as YamlMap)
+    : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function toList(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.map(String);
+  return [];
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}